@@ -0,0 +1,4 @@
+-- Due dates and reminders
+ALTER TABLE todos ADD COLUMN due_at INTEGER;
+ALTER TABLE todos ADD COLUMN reminded_at INTEGER;
+CREATE INDEX IF NOT EXISTS idx_todos_due_at ON todos(completed, due_at);
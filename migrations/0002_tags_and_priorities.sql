@@ -0,0 +1,8 @@
+-- Tags and priorities
+ALTER TABLE todos ADD COLUMN priority INTEGER;
+CREATE TABLE IF NOT EXISTS todo_tags (
+    todo_id INTEGER NOT NULL,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (todo_id, tag)
+);
+CREATE INDEX IF NOT EXISTS idx_todo_tags_tag ON todo_tags(tag);
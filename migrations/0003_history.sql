@@ -0,0 +1,16 @@
+-- Soft delete and mutation history (audit log used by history/undo)
+ALTER TABLE todos ADD COLUMN deleted_at INTEGER;
+CREATE TABLE IF NOT EXISTS todo_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    todo_id INTEGER NOT NULL,
+    pubkey TEXT NOT NULL,
+    user_id INTEGER,
+    action TEXT NOT NULL,
+    before TEXT,
+    after TEXT NOT NULL,
+    event_id TEXT,
+    created_at INTEGER NOT NULL,
+    undone INTEGER NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS idx_todo_history_todo_id ON todo_history(todo_id);
+CREATE INDEX IF NOT EXISTS idx_todo_history_pubkey ON todo_history(pubkey, id);
@@ -0,0 +1,2 @@
+-- Archive for "clear done"; renumber clears user_id of archived and deleted todos
+ALTER TABLE todos ADD COLUMN archived_at INTEGER;
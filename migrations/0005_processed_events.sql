@@ -0,0 +1,8 @@
+-- Events already handled by /mention and /call, for replay protection
+CREATE TABLE IF NOT EXISTS processed_events (
+    event_id TEXT PRIMARY KEY,
+    status INTEGER,
+    response TEXT,
+    created_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_processed_events_created_at ON processed_events(created_at);
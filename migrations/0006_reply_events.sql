@@ -0,0 +1,8 @@
+-- Bot replies that refer to a todo, so that reactions to them can complete or delete it
+CREATE TABLE IF NOT EXISTS reply_events (
+    event_id TEXT PRIMARY KEY,
+    pubkey TEXT NOT NULL,
+    todo_id INTEGER NOT NULL,
+    created_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_reply_events_todo_id ON reply_events(todo_id);
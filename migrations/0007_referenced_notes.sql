@@ -0,0 +1,4 @@
+-- The note a todo was captured from ("add" or "todo" in a reply or quote)
+ALTER TABLE todos ADD COLUMN ref_event_id TEXT;
+ALTER TABLE todos ADD COLUMN ref_pubkey TEXT;
+ALTER TABLE todos ADD COLUMN ref_content TEXT;
@@ -0,0 +1,4 @@
+-- Recurring todos: the repeat rule as JSON, and the occurrence each one was created from
+ALTER TABLE todos ADD COLUMN repeat_rule TEXT;
+ALTER TABLE todos ADD COLUMN previous_id INTEGER;
+CREATE INDEX IF NOT EXISTS idx_todos_previous_id ON todos(previous_id);
@@ -0,0 +1,4 @@
+-- Subtasks: numbered by position within their parent instead of by user_id
+ALTER TABLE todos ADD COLUMN parent_id INTEGER;
+ALTER TABLE todos ADD COLUMN position INTEGER;
+CREATE INDEX IF NOT EXISTS idx_todos_parent_id ON todos(parent_id, position);
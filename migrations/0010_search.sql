@@ -0,0 +1,14 @@
+-- Full-text search over todo content. The trigram tokenizer also works for Japanese text,
+-- which has no spaces between words.
+CREATE VIRTUAL TABLE IF NOT EXISTS todos_fts USING fts5(content, content='todos', content_rowid='id', tokenize='trigram');
+CREATE TRIGGER IF NOT EXISTS todos_fts_insert AFTER INSERT ON todos BEGIN
+    INSERT INTO todos_fts(rowid, content) VALUES (new.id, new.content);
+END;
+CREATE TRIGGER IF NOT EXISTS todos_fts_delete AFTER DELETE ON todos BEGIN
+    INSERT INTO todos_fts(todos_fts, rowid, content) VALUES ('delete', old.id, old.content);
+END;
+CREATE TRIGGER IF NOT EXISTS todos_fts_update AFTER UPDATE OF content ON todos BEGIN
+    INSERT INTO todos_fts(todos_fts, rowid, content) VALUES ('delete', old.id, old.content);
+    INSERT INTO todos_fts(rowid, content) VALUES (new.id, new.content);
+END;
+INSERT INTO todos_fts(todos_fts) VALUES ('rebuild');
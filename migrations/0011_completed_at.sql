@@ -0,0 +1,6 @@
+-- Completion time. Todos completed before this column existed take it from their history, if any.
+ALTER TABLE todos ADD COLUMN completed_at INTEGER;
+UPDATE todos SET completed_at = (
+    SELECT MAX(created_at) FROM todo_history WHERE todo_history.todo_id = todos.id AND action = 'done'
+) WHERE completed = 1;
+CREATE INDEX IF NOT EXISTS idx_todos_completed_at ON todos(pubkey, completed_at);
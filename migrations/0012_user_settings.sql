@@ -0,0 +1,9 @@
+-- Per-user settings. NULL columns use the defaults.
+CREATE TABLE IF NOT EXISTS user_settings (
+    pubkey TEXT PRIMARY KEY,
+    timezone TEXT,
+    preview_length INTEGER,
+    sort TEXT,
+    public INTEGER,
+    updated_at INTEGER NOT NULL
+);
@@ -0,0 +1,2 @@
+-- Reply language (en or ja). NULL follows the language of each mention.
+ALTER TABLE user_settings ADD COLUMN language TEXT;
@@ -0,0 +1,9 @@
+-- Shared lists of NIP-28 channels. Their todos use the channel id in place of a pubkey.
+CREATE TABLE IF NOT EXISTS channels (
+    id TEXT PRIMARY KEY,
+    created_at INTEGER NOT NULL
+);
+
+-- Pubkey of the user a todo is assigned to
+ALTER TABLE todos ADD COLUMN assignee TEXT;
+CREATE INDEX IF NOT EXISTS idx_todos_assignee ON todos(assignee);
@@ -0,0 +1,10 @@
+-- The event each todo was created from and its author, so that a NIP-09 deletion of that event
+-- removes the todo. Existing todos take the event from their add history.
+ALTER TABLE todos ADD COLUMN event_id TEXT;
+ALTER TABLE todos ADD COLUMN created_by TEXT;
+UPDATE todos SET event_id = (
+    SELECT event_id FROM todo_history WHERE todo_history.todo_id = todos.id AND action = 'add' ORDER BY id ASC LIMIT 1
+);
+UPDATE todos SET created_by = pubkey WHERE pubkey NOT IN (SELECT id FROM channels);
+CREATE INDEX IF NOT EXISTS idx_todos_event_id ON todos(event_id);
+CREATE INDEX IF NOT EXISTS idx_todos_created_by ON todos(created_by);
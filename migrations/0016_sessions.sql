@@ -0,0 +1,11 @@
+-- Web view sessions, signed in with a NIP-07 extension. Only a hash of the cookie token is stored,
+-- and each challenge can be used once.
+CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    pubkey TEXT NOT NULL,
+    challenge TEXT NOT NULL UNIQUE,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_sessions_pubkey ON sessions(pubkey);
+CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
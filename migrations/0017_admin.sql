@@ -0,0 +1,18 @@
+-- Commands handled, per verb, for the admin dashboard. error is 1 when the command failed.
+CREATE TABLE IF NOT EXISTS metrics (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source TEXT NOT NULL,
+    pubkey TEXT NOT NULL,
+    verb TEXT NOT NULL,
+    error INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_metrics_created_at ON metrics(created_at);
+CREATE INDEX IF NOT EXISTS idx_metrics_pubkey ON metrics(pubkey);
+
+-- Pubkeys the bot ignores. Their lists are hidden from the site.
+CREATE TABLE IF NOT EXISTS banned_users (
+    pubkey TEXT PRIMARY KEY,
+    reason TEXT,
+    created_at INTEGER NOT NULL
+);
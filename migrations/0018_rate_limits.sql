@@ -0,0 +1,8 @@
+-- Commands per pubkey and minute, for rate limiting
+CREATE TABLE IF NOT EXISTS rate_limits (
+    pubkey TEXT NOT NULL,
+    minute INTEGER NOT NULL,
+    count INTEGER NOT NULL,
+    PRIMARY KEY (pubkey, minute)
+);
+CREATE INDEX IF NOT EXISTS idx_rate_limits_minute ON rate_limits(minute);
@@ -0,0 +1,12 @@
+-- Profiles (kind 0) of users, refreshed when older than an hour
+CREATE TABLE IF NOT EXISTS profiles (
+    pubkey TEXT PRIMARY KEY,
+    name TEXT,
+    picture TEXT,
+    about TEXT,
+    banner TEXT,
+    lud16 TEXT,
+    nip05 TEXT,
+    nip05_verified INTEGER NOT NULL DEFAULT 0,
+    fetched_at INTEGER NOT NULL
+);
@@ -0,0 +1,5 @@
+-- Relays set with the relay command, in place of the configured ones
+CREATE TABLE IF NOT EXISTS relays (
+    url TEXT PRIMARY KEY,
+    position INTEGER NOT NULL
+);
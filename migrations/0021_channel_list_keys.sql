@@ -0,0 +1,6 @@
+-- Channel lists move from the bare channel id to a "channel:" key, so that a channel id can never
+-- address a user's list. Ids registered as channels that belong to known users were never channels.
+DELETE FROM channels WHERE id IN (SELECT created_by FROM todos WHERE created_by IS NOT NULL)
+    OR id IN (SELECT pubkey FROM user_settings) OR id IN (SELECT pubkey FROM profiles);
+UPDATE todos SET pubkey = 'channel:' || pubkey WHERE pubkey IN (SELECT id FROM channels);
+UPDATE todo_history SET pubkey = 'channel:' || pubkey WHERE pubkey IN (SELECT id FROM channels);
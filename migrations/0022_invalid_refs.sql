@@ -0,0 +1,5 @@
+-- Referenced notes were stored without checking their ids, which then failed to encode as nevent/npub
+UPDATE todos SET ref_pubkey = NULL
+    WHERE ref_pubkey IS NOT NULL AND (length(ref_pubkey) != 64 OR ref_pubkey GLOB '*[^0-9a-f]*');
+UPDATE todos SET ref_event_id = NULL, ref_pubkey = NULL, ref_content = NULL
+    WHERE ref_event_id IS NOT NULL AND (length(ref_event_id) != 64 OR ref_event_id GLOB '*[^0-9a-f]*');
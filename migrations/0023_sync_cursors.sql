@@ -0,0 +1,5 @@
+-- How far the cron jobs have read from the relays, so that each run starts where the last one stopped
+CREATE TABLE IF NOT EXISTS sync_cursors (
+    name TEXT PRIMARY KEY,
+    since INTEGER NOT NULL
+);
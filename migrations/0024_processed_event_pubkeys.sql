@@ -0,0 +1,3 @@
+-- The author of each processed event, so that "forget me" can remove the replies stored for them
+ALTER TABLE processed_events ADD COLUMN pubkey TEXT;
+CREATE INDEX IF NOT EXISTS idx_processed_events_pubkey ON processed_events(pubkey);
@@ -2,29 +2,177 @@
 
 import { Hono } from 'hono'
 import { html } from 'hono/html'
+import { DurableObject } from 'cloudflare:workers'
 
 import {
     Event,
+    Filter,
     getEventHash,
     getPublicKey,
     finalizeEvent,
+    nip04,
+    nip05,
+    nip17,
     nip19,
+    nip44,
     SimplePool,
     verifyEvent,
 } from "nostr-tools";
 
 import { bytesToHex, hexToBytes } from '@noble/hashes/utils'
 
+import { RelayListener, MAX_BACKFILL_SECONDS } from './listener'
+
 const cache = caches.default;
 
 export interface Env {
     TODO_NSEC: string;
+    // Shared secret the relay watcher sends as "Authorization: Bearer <secret>" to /mention and /call
+    WEBHOOK_SECRET?: string;
     ASSETS: Fetcher;
     nostr_todo: D1Database;
+    // Built-in relay listener; started by the Cron Trigger when ENABLE_RELAY_LISTENER is "true"
+    RELAY_LISTENER?: DurableObjectNamespace;
+    ENABLE_RELAY_LISTENER?: string;
+    // Admin dashboard at /admin: a bearer token, and/or npubs separated by commas
+    ADMIN_SECRET?: string;
+    ADMIN_NPUBS?: string;
+    // Per-pubkey limits (see DEFAULT_LIMITS), and npubs separated by commas that are not limited
+    RATE_LIMIT_PER_MINUTE?: string;
+    MAX_OPEN_TODOS?: string;
+    MAX_CONTENT_LENGTH?: string;
+    LIMIT_EXEMPT_NPUBS?: string;
+    // Instance settings, see Config
+    SITE_URL?: string;
+    NJUMP_URL?: string;
+    PROFILE_FALLBACK_URL?: string;
+    RELAYS?: string;
+    CALL_NAME?: string;
+    TIME_ZONE?: string;
 }
 
 const pool = new SimplePool();
-const relays = ['wss://yabu.me', 'wss://relay-jp.nostr.wirednet.jp', 'wss://nos.lol', 'wss://relay.damus.io']
+
+// Relays of the original instance, used unless RELAYS is set
+const DEFAULT_RELAYS = ['wss://yabu.me', 'wss://relay-jp.nostr.wirednet.jp', 'wss://nos.lol', 'wss://relay.damus.io'];
+
+const TIME_ZONE = 'Asia/Tokyo';
+
+// Settings of an instance, from the SITE_URL, NJUMP_URL, PROFILE_FALLBACK_URL, RELAYS, CALL_NAME and
+// TIME_ZONE vars. Unset vars keep the defaults of the original instance.
+type Config = {
+    // Public URL of the site, for web replies, feeds and calendar UIDs
+    siteUrl: string;
+    // Where nostr: links of the web view point to
+    njumpUrl: string;
+    // HTTP API to look up profiles that relays do not have, or null with PROFILE_FALLBACK_URL=none
+    profileFallbackUrl: string | null;
+    relays: string[];
+    // The bot answers notes starting with this name without a mention
+    callName: string;
+    // Time zone of users who did not set one
+    timeZone: string;
+};
+
+const DEFAULT_CONFIG: Config = {
+    siteUrl: 'https://nostr-todo.compile-error.net',
+    njumpUrl: 'https://njump.compile-error.net',
+    profileFallbackUrl: 'https://nostr-nullpoga.compile-error.net/profile',
+    relays: DEFAULT_RELAYS,
+    callName: 'todoさん',
+    timeZone: TIME_ZONE,
+};
+
+// Configuration of this isolate, set by configure() at every entry point
+let config: Config = DEFAULT_CONFIG;
+let configuredEnv: Env | null = null;
+
+function parseHttpUrl(name: string, value: string): string {
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch (e) {
+        throw new Error(`${name} is not a URL: ${value}`);
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new Error(`${name} must be an http(s) URL: ${value}`);
+    }
+    return url.href.replace(/\/+$/, '');
+}
+
+function isRelayUrl(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'wss:' || url.protocol === 'ws:';
+    } catch (e) {
+        return false;
+    }
+}
+
+// Read the configuration from Env, and throw on an invalid value so that a misconfigured
+// instance fails on its first request instead of misbehaving
+function loadConfig(env: Env): Config {
+    const relays = env.RELAYS ? env.RELAYS.split(/[\s,]+/).filter((url) => url) : DEFAULT_CONFIG.relays;
+    if (relays.length === 0) {
+        throw new Error('RELAYS has no relay');
+    }
+    const invalid = relays.find((url) => !isRelayUrl(url));
+    if (invalid) {
+        throw new Error(`RELAYS has an invalid relay URL: ${invalid}`);
+    }
+    const timeZone = env.TIME_ZONE || DEFAULT_CONFIG.timeZone;
+    if (!isValidTimeZone(timeZone)) {
+        throw new Error(`TIME_ZONE is not a valid time zone: ${timeZone}`);
+    }
+    return {
+        siteUrl: env.SITE_URL ? parseHttpUrl('SITE_URL', env.SITE_URL) : DEFAULT_CONFIG.siteUrl,
+        njumpUrl: env.NJUMP_URL ? parseHttpUrl('NJUMP_URL', env.NJUMP_URL) : DEFAULT_CONFIG.njumpUrl,
+        profileFallbackUrl: env.PROFILE_FALLBACK_URL === 'none' ? null
+            : env.PROFILE_FALLBACK_URL ? parseHttpUrl('PROFILE_FALLBACK_URL', env.PROFILE_FALLBACK_URL)
+            : DEFAULT_CONFIG.profileFallbackUrl,
+        relays,
+        callName: env.CALL_NAME?.trim() || DEFAULT_CONFIG.callName,
+        timeZone,
+    };
+}
+
+// Load the configuration once per isolate
+function configure(env: Env): void {
+    if (configuredEnv === env) return;
+    config = loadConfig(env);
+    configuredEnv = env;
+}
+
+// Matches a note calling the bot by name, followed by rest. An honorific may be set apart from
+// the name, like "todo さん".
+function callPattern(rest: string = ''): RegExp {
+    const name = config.callName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/(さん|ちゃん|くん)$/, '\\s*$1');
+    return new RegExp(`^${name}${rest}`, 'i');
+}
+
+// Relays changed with the relay command are kept in D1 and replace the configured ones.
+// Each isolate reads them at most once a minute.
+const RELAY_CACHE_MS = 60 * 1000;
+let relayCache: { relays: string[]; expires: number } | null = null;
+
+async function getRelays(env: Env): Promise<string[]> {
+    if (relayCache && relayCache.expires > Date.now()) return relayCache.relays;
+    const { results } = await env.nostr_todo.prepare('SELECT url FROM relays ORDER BY position ASC').all();
+    const relays = results.length > 0 ? results.map((row: any) => row.url as string) : config.relays;
+    relayCache = { relays, expires: Date.now() + RELAY_CACHE_MS };
+    return relays;
+}
+
+// Replace the relays, or go back to the configured ones with null
+async function setRelays(env: Env, relays: string[] | null): Promise<void> {
+    await env.nostr_todo.batch([
+        env.nostr_todo.prepare('DELETE FROM relays'),
+        ...(relays ?? []).map((url, position) => env.nostr_todo.prepare(
+            'INSERT INTO relays (url, position) VALUES (?, ?)'
+        ).bind(url, position)),
+    ]);
+    relayCache = null;
+}
 
 type Bindings = {
     DB: D1Database
@@ -137,6 +285,41 @@ function createNoteWithTags(
     return event;
 }
 
+function getSecretKey(nsec: string): Uint8Array {
+    if (!nsec) throw new Error("TODO_NSEC environment variable is not set");
+    return nip19.decode(nsec).data as Uint8Array;
+}
+
+// Decrypt a kind 4 (NIP-04) or kind 1059 (NIP-17 gift wrap) direct message addressed to the bot.
+// Returns an event carrying the sender pubkey and the plaintext command.
+function decryptDirectMessage(nsec: string, message: Event): Event {
+    const sk = getSecretKey(nsec);
+    if (message.kind === 4) {
+        return { ...message, content: nip04.decrypt(sk, message.pubkey, message.content) };
+    }
+
+    // The seal is signed by the real sender; the rumor inside it is not signed at all
+    const seal: Event = JSON.parse(nip44.decrypt(message.content, nip44.getConversationKey(sk, message.pubkey)));
+    if (seal.kind !== 13 || !verifyEvent(seal)) throw new Error("Invalid seal");
+    const rumor = JSON.parse(nip44.decrypt(seal.content, nip44.getConversationKey(sk, seal.pubkey)));
+    if (rumor.pubkey !== seal.pubkey || rumor.kind !== 14) throw new Error("Invalid rumor");
+    return { ...rumor, sig: '' };
+}
+
+// Create a reply that only the sender can read: kind 4 for NIP-04, gift wrapped kind 14 for NIP-17.
+function createEncryptedReply(nsec: string, message: Event, command: Event, content: string): Event {
+    const sk = getSecretKey(nsec);
+    if (message.kind === 4) {
+        return finalizeEvent({
+            kind: 4,
+            created_at: message.created_at + 1,
+            tags: [["p", message.pubkey], ["e", message.id]],
+            content: nip04.encrypt(sk, message.pubkey, content),
+        }, sk);
+    }
+    return nip17.wrapEvent(sk, { publicKey: command.pubkey }, content, undefined, { eventId: command.id });
+}
+
 function JSONResponse(value: any): Response {
     if (value === null) return new Response("");
     return new Response(JSON.stringify(value), {
@@ -151,6 +334,11 @@ function cleanContent(content: string): string {
     return content.replace(/nostr:(?!nevent)[a-z0-9]+/gi, '').trim();
 }
 
+// Image URLs from profiles that can go into CSS url('…') as is
+function isSafeImageUrl(url: string): boolean {
+    return /^https?:\/\/[^\s"'()<>\\]+$/.test(url);
+}
+
 function escapeHtml(str: string): string {
     return str
         .replace(/&/g, '&amp;')
@@ -161,364 +349,3488 @@ function escapeHtml(str: string): string {
 }
 
 function linkifyNostrRefs(text: string): string {
-    return text.replace(/nostr:(nevent1[a-zA-Z0-9]+)/g, '<a href="https://njump.compile-error.net/$1" target="_blank" rel="noopener noreferrer" style="color: #667eea; text-decoration: underline;">nostr:$1</a>');
+    return text.replace(/nostr:(nevent1[a-zA-Z0-9]+)/g, `<a href="${config.njumpUrl}/$1" target="_blank" rel="noopener noreferrer" style="color: #667eea; text-decoration: underline;">nostr:$1</a>`);
 }
 
-function getHelpMessage(): string {
-    return `使い方:
-list - TODO一覧
-add <内容> - TODO追加
-show <ID> - TODO表示
-update <ID> <内容> - TODO更新
-done <ID> - TODO完了
-delete <ID> - TODO削除
-search <キーワード> - TODO検索
-web - Web表示URL`;
-}
+// Default time of day for due dates given without a time (e.g. "明日")
+const DEFAULT_DUE_HOUR = 9;
 
-async function handleMentionDirect(mention: Event, env: Env): Promise<Response> {
-    // Verify event signature
-    if (!verifyEvent(mention)) {
-        return JSONResponse(
-            createReplyWithTags(env.TODO_NSEC, mention, 'Invalid event signature', []),
-        );
+// Reminders are sent for todos coming due within this window
+const REMINDER_LEAD_SECONDS = 15 * 60;
+
+type ZonedParts = {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    weekday: number;
+};
+
+const WEEKDAYS_EN = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAYS_JA = ['日', '月', '火', '水', '木', '金', '土'];
+
+// Creating an Intl.DateTimeFormat is much slower than using one, so each time zone gets one formatter
+const zonedFormats = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+    let format = zonedFormats.get(timeZone);
+    if (!format) {
+        format = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            weekday: 'long',
+        });
+        zonedFormats.set(timeZone, format);
     }
+    const parts = format.formatToParts(date);
+    const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+    return {
+        year: parseInt(get('year')),
+        month: parseInt(get('month')),
+        day: parseInt(get('day')),
+        hour: parseInt(get('hour')),
+        minute: parseInt(get('minute')),
+        weekday: WEEKDAYS_EN.indexOf(get('weekday').toLowerCase()),
+    };
+}
 
-    const pubkey = mention.pubkey;
-    const content = cleanContent(mention.content);
+// Convert a wall-clock time in the given time zone to unix seconds.
+// Day and month overflow (e.g. day 32) is normalized like Date.UTC does.
+function zonedTimeToUnix(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number {
+    const guess = Date.UTC(year, month - 1, day, hour, minute);
+    const p = getZonedParts(new Date(guess), timeZone);
+    const offset = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - guess;
+    return Math.floor((guess - offset) / 1000);
+}
 
-    if (/^list$/i.test(content)) {
-        const { results } = await env.nostr_todo.prepare(
-            'SELECT user_id, content FROM todos WHERE pubkey = ? AND completed = 0 ORDER BY created_at ASC'
-        ).bind(pubkey).all();
+function formatDueDate(dueAt: number, timeZone: string = TIME_ZONE): string {
+    const p = getZonedParts(new Date(dueAt * 1000), timeZone);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${p.year}/${pad(p.month)}/${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}`;
+}
 
-        let message = '';
-        if (results.length === 0) {
-            message = 'No todos';
-        } else {
-            message = results.map((row: any) => {
-                const cleanedContent = row.content.replace(/nostr:[a-z0-9]+/gi, '').trim();
-                const preview = cleanedContent.replace(/\s+/g, ' ').trim().substring(0, 20);
-                const truncated = cleanedContent.length > 20 ? '...' : '';
-                return `${row.user_id}. ${preview}${truncated}`;
-            }).join('\n');
-        }
+function isOverdue(row: any, now: number = Math.floor(Date.now() / 1000)): boolean {
+    return row.completed === 0 && row.due_at != null && row.due_at < now;
+}
 
-        return JSONResponse(
-            createReplyWithTags(env.TODO_NSEC, mention, message, []),
-        );
+function formatDueSuffix(row: any, timeZone: string = TIME_ZONE): string {
+    if (row.due_at == null) return '';
+    return ` (${isOverdue(row) ? '⚠️ ' : ''}${formatDueDate(row.due_at, timeZone)})`;
+}
+
+// Parse a due date phrase at the beginning of text.
+// Supported: 今日/明日/明後日, N日後, 来週月曜, 金曜, 10/25, 10月25日, 2026-10-25,
+// today/tomorrow, next monday, on friday, in 3 days, optionally followed by 18:00 or 18時(30分|半).
+// 10/25 needs a time after it or "on"/"due" before it, so that "1/2 cup flour" is not a date.
+// Returns the due time and the remaining text, or null if text does not start with a date.
+function parseDueDate(text: string, now: number = Math.floor(Date.now() / 1000), timeZone: string = TIME_ZONE): { dueAt: number; rest: string } | null {
+    const today = getZonedParts(new Date(now * 1000), timeZone);
+    const mondayIndex = (today.weekday + 6) % 7;
+    let year = today.year;
+    let month = today.month;
+    let day = today.day;
+    let matched = '';
+    // A calendar date as written, which must exist instead of rolling over into the next month
+    let explicit = false;
+    let needsTime = false;
+    let m: RegExpMatchArray | null;
+
+    const head = text.trimStart();
+    if ((m = head.match(/^(今日|きょう|today)/i))) {
+        matched = m[0];
+    } else if ((m = head.match(/^(明後日|あさって)/))) {
+        matched = m[0];
+        day += 2;
+    } else if ((m = head.match(/^(明日|あした|tomorrow)/i))) {
+        matched = m[0];
+        day += 1;
+    } else if ((m = head.match(/^(?:(\d+)日後|in\s+(\d+)\s+days?)/i))) {
+        matched = m[0];
+        day += parseInt(m[1] || m[2]);
+    } else if ((m = head.match(/^来週([月火水木金土日])(?:曜日?)?/))) {
+        matched = m[0];
+        const target = (WEEKDAYS_JA.indexOf(m[1]) + 6) % 7;
+        day += 7 - mondayIndex + target;
+    } else if ((m = head.match(/^(?:今週)?([月火水木金土日])曜日?/))) {
+        matched = m[0];
+        day += (WEEKDAYS_JA.indexOf(m[1]) - today.weekday + 7) % 7;
+    } else if ((m = head.match(/^(next|on)\s+(sunday|monday|tuesday|wednesday|thursday|friday|saturday)/i))) {
+        matched = m[0];
+        const diff = (WEEKDAYS_EN.indexOf(m[2].toLowerCase()) - today.weekday + 7) % 7;
+        day += m[1].toLowerCase() === 'next' && diff === 0 ? 7 : diff;
+    } else if ((m = head.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/))) {
+        matched = m[0];
+        explicit = true;
+        year = parseInt(m[1]);
+        month = parseInt(m[2]);
+        day = parseInt(m[3]);
+    } else if ((m = head.match(/^(?:(on|due)\s+)?(\d{1,2})(\/|月)(\d{1,2})日?/i))) {
+        matched = m[0];
+        explicit = true;
+        needsTime = m[3] === '/' && !m[1];
+        month = parseInt(m[2]);
+        day = parseInt(m[4]);
+        // A date earlier than today refers to next year
+        if (month < today.month || (month === today.month && day < today.day)) year += 1;
     }
 
-    const addMatch = content.match(/^add\s+(.+)$/is);
-    if (addMatch) {
-        const todoContent = addMatch[1].trim();
-        if (!todoContent) {
-            return JSONResponse(
-                createReplyWithTags(env.TODO_NSEC, mention, 'Usage: add <content>', []),
-            );
+    let hour = DEFAULT_DUE_HOUR;
+    let minute = 0;
+    const timePart = head.substring(matched.length).match(matched ? /^\s*(\d{1,2})(?::(\d{2})|時(?:(\d{1,2})分|(半))?)/ : /^(\d{1,2})(?::(\d{2})|時(?:(\d{1,2})分|(半))?)/);
+    if (timePart) {
+        hour = parseInt(timePart[1]);
+        minute = timePart[4] ? 30 : parseInt(timePart[2] || timePart[3] || '0');
+        if (!matched && (hour < today.hour || (hour === today.hour && minute <= today.minute))) {
+            // A time alone that has already passed today means tomorrow
+            day += 1;
         }
+        matched += timePart[0];
+    } else if (needsTime) {
+        return null;
+    }
+    if (!matched) return null;
 
-        const inserted = await env.nostr_todo.prepare(
-            `INSERT INTO todos (pubkey, content, completed, created_at, user_id)
-             VALUES (?1, ?2, 0, ?3, (SELECT COALESCE(MAX(user_id), 0) + 1 FROM todos WHERE pubkey = ?1))
-             RETURNING user_id`
-        ).bind(pubkey, todoContent, Math.floor(Date.now() / 1000)).first();
-        const userId = (inserted as any).user_id;
+    const rest = head.substring(matched.length);
+    if (rest && !/^\s/.test(rest)) return null;
+    if (month < 1 || month > 12 || day < 1 || hour > 23 || minute > 59) return null;
+    // Date.UTC with day 0 of the next month gives the last day of this one
+    if (explicit && day > new Date(Date.UTC(year, month, 0)).getUTCDate()) return null;
 
-        return JSONResponse(
-            createReplyWithTags(env.TODO_NSEC, mention, `Added: ${userId}`, []),
-        );
-    }
+    return { dueAt: zonedTimeToUnix(year, month, day, hour, minute, timeZone), rest: rest.trim() };
+}
 
-    const deleteMatch = content.match(/^delete\s+(\d+)$/i);
-    if (deleteMatch) {
-        const userId = parseInt(deleteMatch[1]);
-        const result = await env.nostr_todo.prepare(
-            'DELETE FROM todos WHERE user_id = ? AND pubkey = ?'
-        ).bind(userId, pubkey).run();
+type RepeatRule = {
+    unit: 'day' | 'week' | 'month' | 'year';
+    interval: number;
+    // Day of the week (0 = Sunday) for weekly rules, day of the month for monthly rules
+    weekday?: number;
+    day?: number;
+};
 
-        const message = result.meta.changes > 0
-            ? `Deleted: ${userId}`
-            : `Not found: ${userId}`;
+const REPEAT_UNITS: Record<string, RepeatRule['unit']> = {
+    day: 'day', days: 'day', '日': 'day',
+    week: 'week', weeks: 'week', '週': 'week', '週間': 'week',
+    month: 'month', months: 'month', 'か月': 'month', 'ヶ月': 'month', 'カ月': 'month', 'ヵ月': 'month',
+    year: 'year', years: 'year', '年': 'year',
+};
 
-        return JSONResponse(
-            createReplyWithTags(env.TODO_NSEC, mention, message, []),
-        );
+// Longer intervals push dates out of the range Intl can format
+const MAX_REPEAT_INTERVAL = 365;
+
+// Parse a repeat phrase at the beginning of text.
+// Supported: 毎日, 毎週, 毎週月曜, 隔週金曜, 毎月, 毎月1日, 毎年, 2週間ごと,
+// daily, weekly, monthly, yearly, every day, every monday, every other friday, every 2 weeks, every 15th.
+// Returns the rule and the remaining text, or null if text does not start with a repeat phrase.
+function parseRepeatRule(text: string): { rule: RepeatRule; rest: string } | null {
+    const head = text.trimStart();
+    const weekdayEn = '(sunday|monday|tuesday|wednesday|thursday|friday|saturday)';
+    let rule: RepeatRule | null = null;
+    let m: RegExpMatchArray | null;
+
+    if ((m = head.match(/^(毎|隔)週([月火水木金土日])(?:曜日?)?/))) {
+        rule = { unit: 'week', interval: m[1] === '隔' ? 2 : 1, weekday: WEEKDAYS_JA.indexOf(m[2]) };
+    } else if ((m = head.match(/^毎月(\d{1,2})日/))) {
+        rule = { unit: 'month', interval: 1, day: parseInt(m[1]) };
+    } else if ((m = head.match(/^(毎日|毎週|隔週|毎月|毎年)/))) {
+        rule = {
+            '毎日': { unit: 'day', interval: 1 },
+            '毎週': { unit: 'week', interval: 1 },
+            '隔週': { unit: 'week', interval: 2 },
+            '毎月': { unit: 'month', interval: 1 },
+            '毎年': { unit: 'year', interval: 1 },
+        }[m[1]] as RepeatRule;
+    } else if ((m = head.match(/^(\d+)(日|週間?|か月|ヶ月|カ月|ヵ月|年)(?:ごと|毎)/))) {
+        rule = { unit: REPEAT_UNITS[m[2]], interval: parseInt(m[1]) };
+    } else if ((m = head.match(new RegExp(`^every\\s+(?:(other)\\s+)?${weekdayEn}`, 'i')))) {
+        rule = { unit: 'week', interval: m[1] ? 2 : 1, weekday: WEEKDAYS_EN.indexOf(m[2].toLowerCase()) };
+    } else if ((m = head.match(/^every\s+(\d{1,2})(?:st|nd|rd|th)/i))) {
+        rule = { unit: 'month', interval: 1, day: parseInt(m[1]) };
+    } else if ((m = head.match(/^every\s+(?:(other|\d+)\s+)?(days?|weeks?|months?|years?)/i))) {
+        const interval = !m[1] ? 1 : m[1].toLowerCase() === 'other' ? 2 : parseInt(m[1]);
+        rule = { unit: REPEAT_UNITS[m[2].toLowerCase()], interval };
+    } else if ((m = head.match(/^(daily|weekly|monthly|yearly|annually)/i))) {
+        const unit = ({ daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year', annually: 'year' } as const)[m[1].toLowerCase() as 'daily'];
+        rule = { unit, interval: 1 };
     }
+    if (!rule || !m) return null;
 
-    const doneMatch = content.match(/^done\s+(\d+)$/i);
-    if (doneMatch) {
-        const userId = parseInt(doneMatch[1]);
-        const result = await env.nostr_todo.prepare(
-            'UPDATE todos SET completed = 1 WHERE user_id = ? AND pubkey = ? AND completed = 0'
-        ).bind(userId, pubkey).run();
+    const rest = head.substring(m[0].length);
+    if (rest && !/^\s/.test(rest)) return null;
+    if (rule.interval < 1 || rule.interval > MAX_REPEAT_INTERVAL || (rule.day !== undefined && (rule.day < 1 || rule.day > 31))) return null;
 
-        const message = result.meta.changes > 0
-            ? `Done: ${userId}`
-            : `Not found: ${userId}`;
+    return { rule, rest: rest.trim() };
+}
 
-        return JSONResponse(
-            createReplyWithTags(env.TODO_NSEC, mention, message, []),
-        );
-    }
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
 
-    const searchMatch = content.match(/^search\s+(.+)$/i);
-    if (searchMatch) {
-        const keyword = searchMatch[1].trim();
-        const { results } = await env.nostr_todo.prepare(
-            'SELECT user_id, content FROM todos WHERE pubkey = ? AND completed = 0 AND content LIKE ? ORDER BY created_at ASC'
-        ).bind(pubkey, `%${keyword}%`).all();
+// The occurrence one interval after dueAt, at the same wall-clock time.
+// Monthly and yearly rules keep their day of the month, clamped to shorter months.
+function nextOccurrence(rule: RepeatRule, dueAt: number, timeZone: string = TIME_ZONE): number {
+    const p = getZonedParts(new Date(dueAt * 1000), timeZone);
+    if (rule.unit === 'day' || rule.unit === 'week') {
+        const days = rule.unit === 'day' ? rule.interval : rule.interval * 7;
+        return zonedTimeToUnix(p.year, p.month, p.day + days, p.hour, p.minute, timeZone);
+    }
+    const months = rule.unit === 'month' ? rule.interval : rule.interval * 12;
+    const index = p.year * 12 + (p.month - 1) + months;
+    const year = Math.floor(index / 12);
+    const month = index % 12 + 1;
+    const day = Math.min(rule.day ?? p.day, daysInMonth(year, month));
+    return zonedTimeToUnix(year, month, day, p.hour, p.minute, timeZone);
+}
 
-        let message = '';
-        if (results.length === 0) {
-            message = 'No todos found';
-        } else {
-            message = results.map((row: any) => {
-                const preview = row.content.replace(/\s+/g, ' ').trim().substring(0, 20);
-                const truncated = row.content.length > 20 ? '...' : '';
-                return `${row.user_id}. ${preview}${truncated}`;
-            }).join('\n');
+// The first occurrence of a rule at or after from that is still in the future. Without from,
+// it starts at the next default due hour. Weekly and monthly rules are moved to their weekday
+// or day of the month.
+function firstOccurrence(rule: RepeatRule, from: number | null, now: number = Math.floor(Date.now() / 1000), timeZone: string = TIME_ZONE): number {
+    if (from == null) {
+        const today = getZonedParts(new Date(now * 1000), timeZone);
+        from = zonedTimeToUnix(today.year, today.month, today.day, DEFAULT_DUE_HOUR, 0, timeZone);
+        if (from <= now) {
+            from = zonedTimeToUnix(today.year, today.month, today.day + 1, DEFAULT_DUE_HOUR, 0, timeZone);
         }
+    }
+    const p = getZonedParts(new Date(from * 1000), timeZone);
+    let day = p.day;
+    if (rule.weekday !== undefined) {
+        day += (rule.weekday - p.weekday + 7) % 7;
+    }
+    let dueAt = zonedTimeToUnix(p.year, p.month, day, p.hour, p.minute, timeZone);
+    if (rule.day !== undefined) {
+        dueAt = zonedTimeToUnix(p.year, p.month, Math.min(rule.day, daysInMonth(p.year, p.month)), p.hour, p.minute, timeZone);
+        if (rule.day < p.day) dueAt = nextOccurrence(rule, dueAt, timeZone);
+    }
+    while (dueAt <= now) {
+        dueAt = nextOccurrence(rule, dueAt, timeZone);
+    }
+    return dueAt;
+}
 
-        return JSONResponse(
-            createReplyWithTags(env.TODO_NSEC, mention, message, []),
-        );
+function ordinal(n: number): string {
+    const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+    return `${n}${suffix}`;
+}
+
+function describeRepeatRule(rule: RepeatRule, language: Language = 'en'): string {
+    if (language === 'ja') return describeRepeatRuleJa(rule);
+    const every = rule.interval === 1 ? `every ${rule.unit}` : `every ${rule.interval} ${rule.unit}s`;
+    if (rule.weekday !== undefined) {
+        const weekday = WEEKDAYS_EN[rule.weekday];
+        return rule.interval === 1 ? `every ${weekday}` : `${every} on ${weekday}`;
     }
+    if (rule.day !== undefined) {
+        return `${every} on the ${ordinal(rule.day)}`;
+    }
+    return every;
+}
 
-    const showMatch = content.match(/^show\s+(\d+)$/i);
-    if (showMatch) {
-        const userId = parseInt(showMatch[1]);
-        const { results } = await env.nostr_todo.prepare(
-            'SELECT user_id, content FROM todos WHERE user_id = ? AND pubkey = ?'
-        ).bind(userId, pubkey).all();
+function describeRepeatRuleJa(rule: RepeatRule): string {
+    const units = { day: '日', week: '週', month: '月', year: '年' };
+    const every = rule.interval === 1 ? `毎${units[rule.unit]}`
+        : rule.unit === 'week' && rule.interval === 2 ? '隔週'
+        : `${rule.interval}${{ day: '日', week: '週間', month: 'か月', year: '年' }[rule.unit]}ごと`;
+    if (rule.weekday !== undefined) return `${every}${WEEKDAYS_JA[rule.weekday]}曜`;
+    if (rule.day !== undefined) return `${every}${rule.day}日`;
+    return every;
+}
 
-        let message = '';
-        if (results.length === 0) {
-            message = `Not found: ${userId}`;
-        } else {
-            const row: any = results[0];
-            message = `${row.user_id}. ${row.content}`;
-        }
+function getRepeatRule(row: any): RepeatRule | null {
+    return row.repeat_rule ? JSON.parse(row.repeat_rule) : null;
+}
 
-        return JSONResponse(
-            createReplyWithTags(env.TODO_NSEC, mention, message, []),
-        );
-    }
+const PRIORITIES: Record<string, number> = {
+    high: 1, h: 1, '1': 1,
+    medium: 2, med: 2, m: 2, '2': 2,
+    low: 3, l: 3, '3': 3,
+};
+const PRIORITY_NAMES = ['', 'high', 'medium', 'low'];
 
-    const updateMatch = content.match(/^update\s+(\d+)\s+(.+)$/is);
-    if (updateMatch) {
-        const userId = parseInt(updateMatch[1]);
-        const newContent = updateMatch[2].trim();
-        if (!newContent) {
-            return JSONResponse(
-                createReplyWithTags(env.TODO_NSEC, mention, 'Usage: update <id> <content>', []),
-            );
-        }
+// A priority name or number, or null. Names such as "constructor" must not match the object's prototype.
+function parsePriority(name: string): number | null {
+    const key = name.toLowerCase();
+    return Object.hasOwn(PRIORITIES, key) ? PRIORITIES[key] : null;
+}
 
-        const result = await env.nostr_todo.prepare(
-            'UPDATE todos SET content = ? WHERE user_id = ? AND pubkey = ?'
-        ).bind(newContent, userId, pubkey).run();
+const TODO_COLUMNS = `id, pubkey, user_id, content, completed, completed_at, created_at, due_at, priority, deleted_at, archived_at,
+    ref_event_id, ref_pubkey, ref_content, repeat_rule, previous_id, parent_id, position, assignee, event_id, created_by,
+    (SELECT p.user_id FROM todos p WHERE p.id = todos.parent_id) AS parent_user_id,
+    (SELECT COUNT(*) FROM todos c WHERE c.parent_id = todos.id AND c.deleted_at IS NULL) AS subtask_count,
+    (SELECT COUNT(*) FROM todos c WHERE c.parent_id = todos.id AND c.deleted_at IS NULL AND c.completed = 1) AS subtask_done,
+    (SELECT GROUP_CONCAT(tag, ' ') FROM todo_tags WHERE todo_tags.todo_id = todos.id) AS tags`;
+const TODO_ORDER = 'due_at IS NULL, due_at ASC, COALESCE(priority, 2) ASC, created_at ASC';
 
-        const message = result.meta.changes > 0
-            ? `Updated: ${userId}`
-            : `Not found: ${userId}`;
+// Sort orders users can choose for list, the web view and the API
+const TODO_ORDERS: Record<string, string> = {
+    due: TODO_ORDER,
+    priority: 'COALESCE(priority, 2) ASC, due_at IS NULL, due_at ASC, created_at ASC',
+    created: 'created_at ASC',
+};
 
-        return JSONResponse(
-            createReplyWithTags(env.TODO_NSEC, mention, message, []),
-        );
+type UserSettings = {
+    timezone: string;
+    previewLength: number;
+    sort: string;
+    public: boolean;
+    // null follows the language of each mention
+    language: Language | null;
+};
+
+const DEFAULT_SETTINGS: UserSettings = {
+    timezone: TIME_ZONE,
+    previewLength: 20,
+    sort: 'due',
+    public: true,
+    language: null,
+};
+
+const MIN_PREVIEW_LENGTH = 5;
+const MAX_PREVIEW_LENGTH = 200;
+
+// Settings of a user. Unset columns fall back to the defaults.
+async function getUserSettings(env: Env, pubkey: string): Promise<UserSettings> {
+    const row: any = await env.nostr_todo.prepare(
+        'SELECT timezone, preview_length, sort, public, language FROM user_settings WHERE pubkey = ?'
+    ).bind(pubkey).first();
+    return {
+        timezone: row?.timezone ?? config.timeZone,
+        previewLength: row?.preview_length ?? DEFAULT_SETTINGS.previewLength,
+        // The sort order goes into ORDER BY, so only known orders are used
+        sort: row?.sort && Object.hasOwn(TODO_ORDERS, row.sort) ? row.sort : DEFAULT_SETTINGS.sort,
+        public: row?.public != null ? row.public === 1 : DEFAULT_SETTINGS.public,
+        language: row?.language ?? DEFAULT_SETTINGS.language,
+    };
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch (e) {
+        return false;
     }
+}
 
-    if (/^web$/i.test(content)) {
-        const npub = nip19.npubEncode(pubkey);
-        const url = `https://nostr-todo.compile-error.net/${npub}`;
-        return JSONResponse(
-            createReplyWithTags(env.TODO_NSEC, mention, url, []),
-        );
+// Parse "set <name> <value>" into a column and value, or return an error message
+function parseSetting(name: string, value: string, messages: Messages = MESSAGES_EN): { column: string; value: string | number | null } | string {
+    switch (name.toLowerCase()) {
+        case 'timezone':
+        case 'tz':
+            if (!isValidTimeZone(value)) return messages.settings.unknownTimeZone(value);
+            return { column: 'timezone', value: new Intl.DateTimeFormat('en-US', { timeZone: value }).resolvedOptions().timeZone };
+        case 'preview': {
+            const length = parseInt(value);
+            if (!/^\d+$/.test(value) || length < MIN_PREVIEW_LENGTH || length > MAX_PREVIEW_LENGTH) {
+                return messages.settings.preview(MIN_PREVIEW_LENGTH, MAX_PREVIEW_LENGTH);
+            }
+            return { column: 'preview_length', value: length };
+        }
+        case 'sort': {
+            const v = value.toLowerCase();
+            if (!Object.hasOwn(TODO_ORDERS, v)) return messages.settings.oneOf('sort', Object.keys(TODO_ORDERS));
+            return { column: 'sort', value: v };
+        }
+        case 'public':
+        case 'visibility': {
+            const v = value.toLowerCase();
+            if (['on', 'yes', 'true', 'public'].includes(v)) return { column: 'public', value: 1 };
+            if (['off', 'no', 'false', 'private'].includes(v)) return { column: 'public', value: 0 };
+            return messages.settings.oneOf('public', ['on', 'off']);
+        }
+        case 'language':
+        case 'lang': {
+            const v = value.toLowerCase();
+            if (v === 'auto') return { column: 'language', value: null };
+            if (!LANGUAGES.includes(v as Language)) return messages.settings.oneOf('language', [...LANGUAGES, 'auto']);
+            return { column: 'language', value: v };
+        }
     }
+    return messages.settings.unknown(name);
+}
 
-    return JSONResponse(
-        createReplyWithTags(env.TODO_NSEC, mention, getHelpMessage(), []),
-    );
+async function updateUserSetting(env: Env, pubkey: string, column: string, value: string | number | null): Promise<void> {
+    // column comes from parseSetting, never from user input
+    await env.nostr_todo.prepare(
+        `INSERT INTO user_settings (pubkey, ${column}, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(pubkey) DO UPDATE SET ${column} = excluded.${column}, updated_at = excluded.updated_at`
+    ).bind(pubkey, value, Math.floor(Date.now() / 1000)).run();
 }
 
-async function handleMention(request: Request, env: Env): Promise<Response> {
-    const mention: Event = await request.json();
-    return handleMentionDirect(mention, env);
+function formatSettings(settings: UserSettings, messages: Messages = MESSAGES_EN): string {
+    return `${messages.settings.title}
+timezone: ${settings.timezone}
+preview: ${settings.previewLength}
+sort: ${settings.sort}
+public: ${settings.public ? 'on' : 'off'}
+language: ${settings.language ?? 'auto'}`;
 }
 
-async function handleCall(request: Request, env: Env): Promise<Response> {
-    const mention: Event = await request.json();
+type Language = 'en' | 'ja';
 
-    // Verify event signature
-    if (!verifyEvent(mention)) {
-        return JSONResponse(
-            createReplyWithTags(env.TODO_NSEC, mention, 'Invalid event signature', []),
-        );
-    }
+const LANGUAGES: Language[] = ['en', 'ja'];
 
-    const content = cleanContent(mention.content);
+// Reminders have no mention to take the language from and use this unless the owner set one
+const DEFAULT_LANGUAGE: Language = 'en';
+// The web view has always been Japanese
+const DEFAULT_WEB_LANGUAGE: Language = 'ja';
 
-    // "todoさん" の後にコマンドがあれば handleMention へ
-    if (/^todo\s*さん\s+.+/i.test(content)) {
-        // contentから "todoさん" を削除してhandleMentionへ
-        const modifiedContent = content.replace(/^todo\s*さん\s+/i, '');
-        const modifiedMention = { ...mention, content: modifiedContent };
-        // handleMentionを直接呼び出し（Requestオブジェクトは不要）
-        return handleMentionDirect(modifiedMention, env);
-    }
+const MESSAGES_EN = {
+    yes: 'Hi!',
+    noTodos: 'No todos',
+    noResults: 'No todos found',
+    notFound: (ids: string) => `Not found: ${ids}`,
+    added: (id: string) => `Added: ${id}`,
+    updated: (id: string) => `Updated: ${id}`,
+    next: (id: string) => `Next: ${id}`,
+    due: (date: string) => `due ${date}`,
+    subtasks: (count: number) => `${count} subtasks`,
+    actions: { done: 'Done', reopen: 'Reopened', delete: 'Deleted', archive: 'Archived' } as Record<string, string>,
+    archived: (count: number) => `Archived: ${count}`,
+    renumbered: (count: number) => `Renumbered: ${count}`,
+    historyOf: (id: string) => `History of ${id}:`,
+    nothingToUndo: 'Nothing to undo',
+    undone: (action: string, ids: string) => `Undone: ${action} ${ids}`,
+    imported: (imported: number, skipped: number) => `Imported ${imported}, skipped ${skipped}`,
+    tooManyToImport: (count: number, max: number) => `Too many todos to import: ${count} (max ${max})`,
+    reminder: 'Reminder',
+    overdue: 'Overdue',
+    notInChannel: 'Team lists are only available in channels',
+    assigned: (id: string, npub: string) => `Assigned: ${id} → nostr:${npub}`,
+    unassigned: (id: string) => `Unassigned: ${id}`,
+    forgetConfirm: (token: string) => `This removes all your todos, their history and your settings for good. To confirm, send within 10 minutes:\nforget me ${token}`,
+    forgetInvalidToken: 'Invalid or expired token. Send "forget me" to get a new one.',
+    forgotten: (count: number) => `Forgotten: ${count} todos removed`,
+    rateLimited: (max: number) => `Too many commands. Please wait a minute (max ${max} per minute)`,
+    tooManyOpen: (max: number) => `Too many open todos (max ${max}). Complete or delete some first`,
+    tooLong: (max: number) => `Too long (max ${max} characters)`,
+    ownerOnly: 'Only the owner of the bot can do this',
+    relays: (list: string) => `Relays:\n${list}`,
+    relayAdded: (url: string) => `Relay added: ${url}`,
+    relayRemoved: (url: string) => `Relay removed: ${url}`,
+    relayReset: (list: string) => `Relays reset to the configured ones:\n${list}`,
+    relayInvalid: (url: string) => `Not a relay URL: ${url}`,
+    relayUnknown: (url: string) => `Not in the relays: ${url}`,
+    relayLastOne: 'Cannot remove the last relay',
+    show: { due: 'Due', overdue: 'overdue', repeat: 'Repeat', priority: 'Priority', tags: 'Tags', assignee: 'Assignee', note: 'Note' },
+    stats: {
+        title: 'This week:',
+        opened: 'Opened',
+        closed: 'Closed',
+        average: 'Average time to finish',
+        streak: (days: number) => `Streak: ${days} ${days === 1 ? 'day' : 'days'}`,
+    },
+    settings: {
+        title: 'Settings:',
+        unknown: (name: string) => `Unknown setting: ${name}`,
+        unknownTimeZone: (timeZone: string) => `Unknown timezone: ${timeZone}`,
+        preview: (min: number, max: number) => `preview must be between ${min} and ${max}`,
+        oneOf: (name: string, values: string[]) => `${name} must be one of ${values.join(', ')}`,
+    },
+    usage: {
+        list: 'Usage: list [#tag] [!priority]',
+        add: 'Usage: add [repeat] [due] [#tag] [!priority] <content>',
+        batch: (verb: string) => `Usage: ${verb} <id>[,<id>|<from>-<to>...]`,
+        search: 'Usage: search <words> ["phrase"] [-word] [done:yes|no] [before:YYYY-MM-DD] [after:YYYY-MM-DD] [#tag]',
+        updateDue: 'Usage: update <id> due <date|none>',
+        updateRepeat: 'Usage: update <id> repeat <rule|none>',
+        update: 'Usage: update <id> [due] [#tag] [!priority] <content>',
+        import: 'Usage: import <Markdown checklist|todo.txt|JSON|URL>',
+        assign: 'Usage: assign <id> <npub|none>',
+        set: 'Usage: set timezone <Area/City> | set preview <5-200> | set sort <due|priority|created> | set public <on|off> | set language <en|ja|auto>',
+        relay: 'Usage: relay [add <wss://…> | remove <wss://…> | reset]',
+    },
+    help: `Usage:
+list [#tag] [!priority] - List todos
+add [due] [#tag] [!high|!medium|!low] <content> - Add a todo (e.g. add tomorrow 18:00 #shopping buy milk)
+add every monday|every 1st|every 2 weeks <content> - Recurring todo (the next one is added when it is done)
+update <id> repeat <rule|none> - Change the repeat rule
+add / todo - Add the replied-to or quoted note (its text when no content is given)
+show <id> - Show a todo
+add <id> / <content> - Add a subtask ("- [ ] item" lines in add work too)
+update <id> [due] <content> - Update a todo
+update <id> due <due|none> - Change the due date
+done <id,...> - Complete todos (e.g. done 1,3,5-8, subtasks: done 3.2)
+undone <id,...> - Mark as not done (reopen)
+delete <id,...> - Delete todos
+clear done - Archive completed todos
+renumber - Compact the ids
+search <words> ["phrase"] [-word] [done:yes|no] [before:2026-01-01] [#tag] - Full-text search including completed todos
+history <id> - Change history
+import <text|URL> - Add todos from a Markdown checklist, todo.txt or JSON
+assign <id> <npub|none> - Hand a todo to someone (they are notified)
+team <command> - In a channel, use the channel's shared list (e.g. team add, team list, team done 1)
+stats - This week's opened and closed counts, average time to finish and streak
+undo - Revert the last change
+settings - Show your settings
+forget me - Remove all your data (asks for confirmation)
+set timezone|preview|sort|public|language <value> - Change a setting (e.g. set timezone America/New_York, set language ja)
+web - Web view URL`,
+    web: {
+        locale: 'en-US',
+        home: 'Home',
+        all: 'All',
+        byTag: 'By tag',
+        open: 'Open',
+        allDone: 'All done!',
+        noTag: 'No tag',
+        completed: 'Completed',
+        noCompleted: 'No completed todos',
+        stats: 'Stats',
+        overdue: 'Overdue',
+        openedThisWeek: 'Opened this week',
+        closedThisWeek: 'Closed this week',
+        average: 'Average time to finish',
+        streak: 'Streak',
+        assignee: 'Assignee',
+        openNote: 'Open the note',
+        login: 'Sign in',
+        logout: 'Sign out',
+        addPlaceholder: 'New todo',
+        duePlaceholder: 'Due (e.g. tomorrow 10:00)',
+        noPriority: 'No priority',
+        add: 'Add',
+        recentUsers: 'Recent users',
+        feedAdded: '📝 Added',
+        feedDone: '✅ Done',
+        editor: {
+            noExtension: 'Install a NIP-07 extension such as nos2x or Alby to sign in.',
+            failed: 'Failed',
+            save: 'Save',
+            cancel: 'Cancel',
+            edit: 'Edit',
+            delete: 'Delete',
+            done: 'Done',
+            reopen: 'Reopen',
+            confirmDelete: 'Delete this todo?',
+        },
+    },
+};
 
-    return JSONResponse(
-        createReplyWithTags(env.TODO_NSEC, mention, `はい\n\n${getHelpMessage()}`, []),
-    );
+type Messages = typeof MESSAGES_EN;
+
+const MESSAGES: Record<Language, Messages> = {
+    en: MESSAGES_EN,
+    ja: {
+        yes: 'はい',
+        noTodos: 'TODOはありません',
+        noResults: '見つかりませんでした',
+        notFound: (ids) => `見つかりません: ${ids}`,
+        added: (id) => `追加しました: ${id}`,
+        updated: (id) => `更新しました: ${id}`,
+        next: (id) => `次回: ${id}`,
+        due: (date) => `期限 ${date}`,
+        subtasks: (count) => `サブタスク${count}件`,
+        actions: { done: '完了しました', reopen: '未完了に戻しました', delete: '削除しました', archive: 'アーカイブしました' },
+        archived: (count) => `アーカイブしました: ${count}件`,
+        renumbered: (count) => `IDを詰め直しました: ${count}件`,
+        historyOf: (id) => `${id} の変更履歴:`,
+        nothingToUndo: '取り消す変更はありません',
+        undone: (action, ids) => `取り消しました: ${action} ${ids}`,
+        imported: (imported, skipped) => `${imported}件追加しました (${skipped}件スキップ)`,
+        tooManyToImport: (count, max) => `一度に追加できるのは${max}件までです: ${count}件`,
+        reminder: 'リマインダー',
+        overdue: '期限切れ',
+        notInChannel: 'チームのリストはチャンネルでのみ使えます',
+        assigned: (id, npub) => `担当者を設定しました: ${id} → nostr:${npub}`,
+        unassigned: (id) => `担当者を外しました: ${id}`,
+        forgetConfirm: (token) => `すべてのTODO、変更履歴、設定を完全に削除します。よろしければ10分以内に次のように送ってください:\nforget me ${token}`,
+        forgetInvalidToken: 'トークンが正しくないか期限切れです。もう一度「forget me」と送ってください',
+        forgotten: (count) => `削除しました: TODO ${count}件`,
+        rateLimited: (max) => `コマンドが多すぎます。1分ほど待ってから送ってください (1分あたり${max}回まで)`,
+        tooManyOpen: (max) => `未完了のTODOが多すぎます (最大${max}件)。完了するか削除してから追加してください`,
+        tooLong: (max) => `長すぎます (最大${max}文字)`,
+        ownerOnly: 'ボットの管理者だけが実行できます',
+        relays: (list) => `リレー:\n${list}`,
+        relayAdded: (url) => `リレーを追加しました: ${url}`,
+        relayRemoved: (url) => `リレーを削除しました: ${url}`,
+        relayReset: (list) => `リレーを設定の値に戻しました:\n${list}`,
+        relayInvalid: (url) => `リレーのURLではありません: ${url}`,
+        relayUnknown: (url) => `リレーの一覧にありません: ${url}`,
+        relayLastOne: '最後のリレーは削除できません',
+        show: { due: '期限', overdue: '期限切れ', repeat: '繰り返し', priority: '優先度', tags: 'タグ', assignee: '担当者', note: 'ノート' },
+        stats: {
+            title: '今週:',
+            opened: '追加',
+            closed: '完了',
+            average: '平均完了時間',
+            streak: (days) => `連続日数: ${days}日`,
+        },
+        settings: {
+            title: '設定:',
+            unknown: (name) => `不明な設定です: ${name}`,
+            unknownTimeZone: (timeZone) => `不明なタイムゾーンです: ${timeZone}`,
+            preview: (min, max) => `preview は${min}から${max}の間で指定してください`,
+            oneOf: (name, values) => `${name} は ${values.join(', ')} のいずれかです`,
+        },
+        usage: {
+            list: '使い方: list [#タグ] [!優先度]',
+            add: '使い方: add [繰り返し] [期限] [#タグ] [!優先度] <内容>',
+            batch: (verb) => `使い方: ${verb} <ID>[,<ID>|<開始>-<終了>...]`,
+            search: '使い方: search <キーワード> ["フレーズ"] [-除外] [done:yes|no] [before:YYYY-MM-DD] [after:YYYY-MM-DD] [#タグ]',
+            updateDue: '使い方: update <ID> due <期限|none>',
+            updateRepeat: '使い方: update <ID> repeat <繰り返し|none>',
+            update: '使い方: update <ID> [期限] [#タグ] [!優先度] <内容>',
+            import: '使い方: import <Markdownのチェックリスト|todo.txt|JSON|URL>',
+            assign: '使い方: assign <ID> <npub|none>',
+            set: '使い方: set timezone <Area/City> | set preview <5-200> | set sort <due|priority|created> | set public <on|off> | set language <en|ja|auto>',
+            relay: '使い方: relay [add <wss://…> | remove <wss://…> | reset]',
+        },
+        help: `使い方:
+list [#タグ] [!優先度] - TODO一覧
+add [期限] [#タグ] [!high|!medium|!low] <内容> - TODO追加 (例: add 明日 18:00 #買い物 牛乳を買う)
+add 毎週月曜|毎月1日|every 2 weeks <内容> - 繰り返しTODO (完了すると次回分を追加)
+update <ID> repeat <繰り返し|none> - 繰り返しの変更
+add / todo - 返信先・引用したノートをTODOに追加 (内容を省略するとノートの本文)
+show <ID> - TODO表示
+add <ID> / <内容> - サブタスク追加 (add の本文に「- [ ] 項目」の行を書いてもOK)
+update <ID> [期限] <内容> - TODO更新
+update <ID> due <期限|none> - 期限の変更
+done <ID,...> - TODO完了 (例: done 1,3,5-8, サブタスクは done 3.2)
+undone <ID,...> - 完了を取り消し (reopen)
+delete <ID,...> - TODO削除
+clear done - 完了済みをアーカイブ
+renumber - IDを詰め直す
+search <キーワード> ["フレーズ"] [-除外] [done:yes|no] [before:2026-01-01] [#タグ] - 完了済みも含めて全文検索
+history <ID> - 変更履歴
+import <テキスト|URL> - Markdownのチェックリスト、todo.txt、JSONから一括追加
+assign <ID> <npub|none> - 担当者を割り当て (担当者に通知されます)
+team <コマンド> - チャンネルの共有リストを操作 (例: team add, team list, team done 1)
+stats - 今週の追加・完了数、平均完了時間、連続日数
+undo - 直前の変更を取り消し
+settings - 設定を表示
+forget me - すべてのデータを削除 (確認あり)
+set timezone|preview|sort|public|language <値> - 設定を変更 (例: set timezone America/New_York, set language en)
+web - Web表示URL
+追加、一覧、完了、削除、検索などの日本語のコマンドも使えます (例: 追加 明日 牛乳を買う, 完了 1,3)`,
+        web: {
+            locale: 'ja-JP',
+            home: 'トップページへ',
+            all: 'すべて',
+            byTag: 'タグ別',
+            open: '未完了',
+            allDone: 'すべて完了しました！',
+            noTag: 'タグなし',
+            completed: '完了',
+            noCompleted: '完了したTODOはありません',
+            stats: '統計',
+            overdue: '期限切れ',
+            openedThisWeek: '今週追加',
+            closedThisWeek: '今週完了',
+            average: '平均完了時間',
+            streak: '連続日数',
+            assignee: '担当者',
+            openNote: '元のノートを開く',
+            login: 'ログイン',
+            logout: 'ログアウト',
+            addPlaceholder: '新しいTODO',
+            duePlaceholder: '期限 (例: 明日 10:00)',
+            noPriority: '優先度なし',
+            add: '追加',
+            recentUsers: '最近のユーザー',
+            feedAdded: '📝 追加',
+            feedDone: '✅ 完了',
+            editor: {
+                noExtension: 'ログインするには nos2x や Alby などの NIP-07 拡張機能をインストールしてください。',
+                failed: '失敗しました',
+                save: '保存',
+                cancel: 'キャンセル',
+                edit: '編集',
+                delete: '削除',
+                done: '完了',
+                reopen: '未完了に戻す',
+                confirmDelete: 'このTODOを削除しますか？',
+            },
+        },
+    },
+};
+
+// Japanese verbs accepted in place of the English commands
+const COMMAND_ALIASES: Record<string, string> = {
+    '追加': 'add',
+    '一覧': 'list',
+    '表示': 'show',
+    '更新': 'update',
+    '完了': 'done',
+    '未完了': 'undone',
+    '削除': 'delete',
+    '検索': 'search',
+    '履歴': 'history',
+    '取り消し': 'undo',
+    '統計': 'stats',
+    '設定': 'settings',
+    'ヘルプ': 'help',
+    '担当': 'assign',
+    'チーム': 'team',
+    'リレー': 'relay',
+};
+
+// Replace a leading Japanese alias with its English command
+function normalizeCommand(content: string): string {
+    const verb = content.split(/\s/, 1)[0];
+    return Object.hasOwn(COMMAND_ALIASES, verb) ? COMMAND_ALIASES[verb] + content.substring(verb.length) : content;
 }
 
-async function getRecentUsers(env: Env, limit: number = 10): Promise<any[]> {
-    const { results } = await env.nostr_todo.prepare(
-        'SELECT pubkey, MAX(created_at) as last_created FROM todos GROUP BY pubkey ORDER BY last_created DESC LIMIT ?'
-    ).bind(limit).all();
+// The language of an event: a NIP-32 ISO-639-1 label if it has one, otherwise Japanese
+// when the text contains kana or kanji
+function detectLanguage(event: Event): Language {
+    const label = event.tags.find((tag) => tag[0] === 'l' && tag[2] === 'ISO-639-1' && LANGUAGES.includes(tag[1] as Language));
+    if (label) return label[1] as Language;
+    return /[\u3040-\u30ff\u4e00-\u9fff]/.test(cleanContent(event.content)) ? 'ja' : 'en';
+}
 
-    const users = [];
-    for (const row of results) {
-        const pubkey = (row as any).pubkey;
-        const npub = nip19.npubEncode(pubkey);
+// Replies use the user's language setting, or follow the language of their mention
+function replyLanguage(settings: UserSettings, event: Event): Language {
+    return settings.language ?? detectLanguage(event);
+}
 
-        const cacheKey = `https://nostr-todo.compile-error.net/profile/${pubkey}`;
-        let cachedResponse = await cache.match(cacheKey);
-        let profile: any = { name: npub.substring(0, 12) + '...', picture: '' };
+type TodoFilter = {
+    tags: string[];
+    priority: number | null;
+};
 
-        if (cachedResponse) {
-            profile = await cachedResponse.json();
-        } else {
-            try {
-                const fallbackUrl = `https://nostr-nullpoga.compile-error.net/profile/${npub}`;
-                const fallbackResponse = await fetch(fallbackUrl);
-                if (fallbackResponse.ok) {
-                    const metadata: any = await fallbackResponse.json();
-                    profile = {
-                        name: metadata.name || metadata.display_name || profile.name,
-                        picture: metadata.picture || ''
-                    };
-
-                    const profileResponse = new Response(JSON.stringify(profile), {
-                        headers: { 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=3600' }
-                    });
-                    await cache.put(cacheKey, profileResponse);
-                }
-            } catch (e) {
-                console.error('Failed to fetch profile:', e);
-            }
-        }
+// Extract #tag and !priority tokens from text. Numeric tags like #123 are left in the text.
+function parseTodoAttributes(text: string): TodoFilter & { rest: string } {
+    const tags: string[] = [];
+    let priority: number | null = null;
+    const rest = text
+        .replace(/(^|[ \t]+)#([^\s#]+)(?=\s|$)/gm, (match, _sp, tag) => {
+            if (/^\d+$/.test(tag)) return match;
+            const normalized = tag.toLowerCase();
+            if (!tags.includes(normalized)) tags.push(normalized);
+            return '';
+        })
+        .replace(/(^|[ \t]+)!(high|h|medium|med|m|low|l|[123])(?=\s|$)/gim, (_match, _sp, name) => {
+            priority = parsePriority(name);
+            return '';
+        })
+        .trim();
+    return { tags, priority, rest };
+}
 
-        users.push({ npub, profile });
+function buildTodoFilter(filter: TodoFilter): { sql: string; params: any[] } {
+    let sql = '';
+    const params: any[] = [];
+    if (filter.priority !== null) {
+        sql += ' AND priority = ?';
+        params.push(filter.priority);
     }
-
-    return users;
+    for (const tag of filter.tags) {
+        sql += ' AND EXISTS (SELECT 1 FROM todo_tags WHERE todo_tags.todo_id = todos.id AND todo_tags.tag = ?)';
+        params.push(tag);
+    }
+    return { sql, params };
 }
 
-async function handleWebView(npub: string, env: Env, format: 'html' | 'json' = 'html'): Promise<Response> {
-    try {
-        const decoded = nip19.decode(npub);
-        const pubkey = decoded.data as string;
+type SearchQuery = TodoFilter & {
+    terms: string[];
+    excluded: string[];
+    done: boolean | null;
+    before: number | null;
+    after: number | null;
+};
 
-        // Try to get profile from cache
-        const cacheKey = `https://nostr-todo.compile-error.net/profile/${pubkey}`;
-        let cachedResponse = await cache.match(cacheKey);
-        let profile: any = { name: npub.substring(0, 12) + '...', picture: '' };
+const SEARCH_RESULT_LIMIT = 20;
 
-        if (cachedResponse) {
-            profile = await cachedResponse.json();
-        } else {
-            // Fetch profile from relays
-            try {
-                const events = await pool.querySync(relays, { kinds: [0], authors: [pubkey], limit: 1 });
-                if (events.length > 0) {
-                    const metadata = JSON.parse(events[0].content);
-                    profile = {
-                        name: metadata.name || metadata.display_name || profile.name,
-                        picture: metadata.picture || ''
-                    };
-
-                    // Cache profile for 1 hour
-                    const profileResponse = new Response(JSON.stringify(profile), {
-                        headers: {
-                            'Content-Type': 'application/json',
-                            'Cache-Control': 'public, max-age=3600'
-                        }
-                    });
-                    await cache.put(cacheKey, profileResponse);
-                }
-            } catch (e) {
-                console.error('Failed to fetch profile from relays:', e);
-            }
+// The trigram tokenizer cannot match shorter terms (e.g. "牛乳"), so those fall back to LIKE
+const FTS_MIN_TERM_LENGTH = 3;
 
-            // Fallback to HTTP API if relay fetch failed
-            if (!profile.picture && profile.name.startsWith('npub')) {
-                try {
-                    const fallbackUrl = `https://nostr-nullpoga.compile-error.net/profile/${npub}`;
-                    const fallbackResponse = await fetch(fallbackUrl);
-                    if (fallbackResponse.ok) {
-                        const metadata: any = await fallbackResponse.json();
-                        profile = {
-                            name: metadata.name || metadata.display_name || profile.name,
-                            picture: metadata.picture || ''
-                        };
-
-                        // Cache profile for 1 hour
-                        const profileResponse = new Response(JSON.stringify(profile), {
-                            headers: {
-                                'Content-Type': 'application/json',
-                                'Cache-Control': 'public, max-age=3600'
-                            }
-                        });
-                        await cache.put(cacheKey, profileResponse);
-                    }
-                } catch (e) {
-                    console.error('Failed to fetch profile from fallback API:', e);
-                }
+// Parse a search query. Words and "quoted phrases" must all match, -word excludes,
+// done:yes|no|all, before:2026-01-01, after:2026-01-01, #tag and !priority filter.
+// Returns an error message if a filter is malformed.
+function parseSearchQuery(text: string, timeZone: string = TIME_ZONE): SearchQuery | string {
+    const attrs = parseTodoAttributes(text);
+    const query: SearchQuery = { tags: attrs.tags, priority: attrs.priority, terms: [], excluded: [], done: null, before: null, after: null };
+    for (const m of attrs.rest.matchAll(/(-?)(?:"([^"]*)"|(\S+))/g)) {
+        const negated = m[1] === '-';
+        const word = m[2] ?? m[3];
+        const filter = m[2] === undefined && !negated ? word.match(/^(done|before|after):(.*)$/i) : null;
+        if (filter) {
+            const name = filter[1].toLowerCase();
+            if (name === 'done') {
+                const value = filter[2].toLowerCase();
+                if (!['yes', 'no', 'all'].includes(value)) return 'done: must be yes, no or all';
+                query.done = value === 'all' ? null : value === 'yes';
+            } else {
+                const date = filter[2].match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+                if (!date) return `${name}: must be a date like 2026-01-01`;
+                query[name as 'before' | 'after'] = zonedTimeToUnix(parseInt(date[1]), parseInt(date[2]), parseInt(date[3]), 0, 0, timeZone);
             }
+        } else if (word) {
+            (negated ? query.excluded : query.terms).push(word);
         }
+    }
+    return query;
+}
 
-        const { results } = await env.nostr_todo.prepare(
-            'SELECT user_id, content, completed, created_at FROM todos WHERE pubkey = ? ORDER BY completed ASC, created_at ASC'
-        ).bind(pubkey).all();
+function ftsPhrase(term: string): string {
+    return `"${term.replace(/"/g, '""')}"`;
+}
 
-        const incompleteTodos = results.filter((r: any) => r.completed === 0);
-        const completedTodos = results.filter((r: any) => r.completed === 1);
+function likePattern(term: string): string {
+    return `%${term.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
 
-        // JSON format
-        if (format === 'json') {
-            return new Response(JSON.stringify({
-                npub,
-                pubkey,
-                profile,
-                todos: {
-                    incomplete: incompleteTodos.map((t: any) => ({
-                        id: t.user_id,
-                        content: t.content,
-                        completed: false,
-                        created_at: t.created_at
-                    })),
-                    completed: completedTodos.map((t: any) => ({
-                        id: t.user_id,
-                        content: t.content,
-                        completed: true,
-                        created_at: t.created_at
-                    }))
-                }
-            }, null, 2), {
-                headers: {
-                    'Content-Type': 'application/json; charset=utf-8',
-                    'Access-Control-Allow-Origin': '*'
-                }
-            });
-        }
+// Build the search SQL. Terms long enough for the full-text index are matched through todos_fts
+// and ranked with bm25; the rest are plain LIKE conditions.
+function buildSearchSql(pubkey: string, query: SearchQuery): { sql: string; params: any[] } {
+    const isIndexed = (term: string) => [...term].length >= FTS_MIN_TERM_LENGTH;
+    const indexed = query.terms.filter(isIndexed);
+    const params: any[] = [];
+    let join = '';
+    if (indexed.length > 0) {
+        join = 'JOIN (SELECT rowid, bm25(todos_fts) AS score FROM todos_fts WHERE todos_fts MATCH ?) fts ON fts.rowid = todos.id';
+        params.push(indexed.map(ftsPhrase).join(' '));
+    }
+    let where = 'pubkey = ? AND deleted_at IS NULL';
+    params.push(pubkey);
+    for (const term of query.terms.filter((term) => !isIndexed(term))) {
+        where += " AND content LIKE ? ESCAPE '\\'";
+        params.push(likePattern(term));
+    }
+    const excludedIndexed = query.excluded.filter(isIndexed);
+    if (excludedIndexed.length > 0) {
+        where += ' AND id NOT IN (SELECT rowid FROM todos_fts WHERE todos_fts MATCH ?)';
+        params.push(excludedIndexed.map(ftsPhrase).join(' OR '));
+    }
+    for (const term of query.excluded.filter((term) => !isIndexed(term))) {
+        where += " AND content NOT LIKE ? ESCAPE '\\'";
+        params.push(likePattern(term));
+    }
+    if (query.done !== null) {
+        where += ' AND completed = ?';
+        params.push(query.done ? 1 : 0);
+    }
+    // Dates refer to the completion for done:yes ("what did I finish last month"), otherwise to creation
+    const dateColumn = query.done === true ? 'completed_at' : 'created_at';
+    if (query.before !== null) {
+        where += ` AND ${dateColumn} < ?`;
+        params.push(query.before);
+    }
+    if (query.after !== null) {
+        where += ` AND ${dateColumn} >= ?`;
+        params.push(query.after);
+    }
+    const filter = buildTodoFilter(query);
+    params.push(...filter.params, SEARCH_RESULT_LIMIT);
+    return {
+        sql: `SELECT ${TODO_COLUMNS} FROM todos ${join} WHERE ${where}${filter.sql}
+              ORDER BY ${join ? 'fts.score ASC, ' : ''}completed ASC, created_at DESC LIMIT ?`,
+        params,
+    };
+}
 
-        const htmlContent = `<!DOCTYPE html>
-<html lang="ja">
-<head>
+// A short excerpt around the first matching term, with every term marked as 【term】
+function highlightSnippet(text: string, terms: string[], length: number = 40): string {
+    const cleaned = text.replace(/\s+/g, ' ').trim();
+    const lower = cleaned.toLowerCase();
+    const positions = terms.map((term) => lower.indexOf(term.toLowerCase())).filter((i) => i >= 0);
+    const first = positions.length > 0 ? Math.min(...positions) : 0;
+    const start = Math.max(0, first - 10);
+    let snippet = cleaned.substring(start, start + length);
+    const escaped = terms.filter((term) => term).map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    if (escaped.length > 0) {
+        snippet = snippet.replace(new RegExp(`(${escaped.join('|')})`, 'gi'), '【$1】');
+    }
+    return `${start > 0 ? '…' : ''}${snippet}${start + length < cleaned.length ? '…' : ''}`;
+}
+
+function formatSearchLine(row: any, terms: string[], timeZone: string = TIME_ZONE): string {
+    const status = row.completed ? '✅ ' : '';
+    const tags = getTags(row).map((tag) => ` #${tag}`).join('');
+    return `${todoLabel(row)}. ${status}${highlightSnippet(row.content, terms)}${tags}${formatDueSuffix(row, timeZone)}`;
+}
+
+async function setTodoTags(env: Env, todoId: number, tags: string[]): Promise<void> {
+    await env.nostr_todo.batch([
+        env.nostr_todo.prepare('DELETE FROM todo_tags WHERE todo_id = ?').bind(todoId),
+        ...tags.map((tag) => env.nostr_todo.prepare(
+            'INSERT OR IGNORE INTO todo_tags (todo_id, tag) VALUES (?, ?)'
+        ).bind(todoId, tag)),
+    ]);
+}
+
+function getTags(row: any): string[] {
+    return row.tags ? row.tags.split(' ') : [];
+}
+
+// A todo is numbered by user_id; a subtask by its parent's number and its position, e.g. "3.2"
+type TodoKey = {
+    userId: number;
+    position: number | null;
+};
+
+function parseTodoKey(text: string): TodoKey | null {
+    const m = text.trim().match(/^(\d+)(?:\.(\d+))?$/);
+    if (!m) return null;
+    return { userId: parseInt(m[1]), position: m[2] ? parseInt(m[2]) : null };
+}
+
+function formatTodoKey(key: TodoKey): string {
+    return key.position === null ? `${key.userId}` : `${key.userId}.${key.position}`;
+}
+
+function todoLabel(row: any): string {
+    return row.parent_id != null ? `${row.parent_user_id}.${row.position}` : `${row.user_id}`;
+}
+
+function formatProgress(row: any): string {
+    return row.subtask_count > 0 ? ` (${row.subtask_done}/${row.subtask_count})` : '';
+}
+
+function shortNpub(pubkey: string): string {
+    return nip19.npubEncode(pubkey).substring(0, 12) + '...';
+}
+
+function formatTodoLine(row: any, settings: UserSettings = DEFAULT_SETTINGS): string {
+    const cleanedContent = row.content.replace(/nostr:[a-z0-9]+/gi, '').trim();
+    const preview = cleanedContent.replace(/\s+/g, ' ').trim().substring(0, settings.previewLength);
+    const truncated = cleanedContent.length > settings.previewLength ? '...' : '';
+    const priority = row.priority ? `!${PRIORITY_NAMES[row.priority]} ` : '';
+    const tags = getTags(row).map((tag) => ` #${tag}`).join('');
+    const repeat = row.repeat_rule ? ' 🔁' : '';
+    const assignee = row.assignee ? ` 👤${shortNpub(row.assignee)}` : '';
+    return `${todoLabel(row)}. ${priority}${preview}${truncated}${formatProgress(row)}${tags}${formatDueSuffix(row, settings.timezone)}${repeat}${assignee}`;
+}
+
+type TodoSnapshot = {
+    content: string;
+    completed: number;
+    completed_at?: number | null;
+    due_at: number | null;
+    priority: number | null;
+    tags: string[];
+    deleted_at: number | null;
+    archived_at?: number | null;
+    repeat_rule?: string | null;
+    assignee?: string | null;
+};
+
+async function findTodo(env: Env, pubkey: string, userId: number): Promise<any | null> {
+    return env.nostr_todo.prepare(
+        `SELECT ${TODO_COLUMNS} FROM todos WHERE user_id = ? AND pubkey = ? AND deleted_at IS NULL`
+    ).bind(userId, pubkey).first();
+}
+
+function toSnapshot(row: any): TodoSnapshot {
+    return {
+        content: row.content,
+        completed: row.completed,
+        completed_at: row.completed_at,
+        due_at: row.due_at,
+        priority: row.priority,
+        tags: getTags(row),
+        deleted_at: row.deleted_at,
+        archived_at: row.archived_at,
+        repeat_rule: row.repeat_rule,
+        assignee: row.assignee,
+    };
+}
+
+async function findTodoById(env: Env, id: number): Promise<any | null> {
+    return env.nostr_todo.prepare(
+        `SELECT ${TODO_COLUMNS} FROM todos WHERE id = ?`
+    ).bind(id).first();
+}
+
+// Find todos and subtasks by key. Subtasks are looked up through their parents' numbers,
+// which keeps the bound parameters within D1's limit for a full batch.
+async function findTodos(env: Env, pubkey: string, keys: TodoKey[]): Promise<any[]> {
+    const userIds = [...new Set(keys.filter((key) => key.position === null).map((key) => key.userId))];
+    const parentIds = [...new Set(keys.filter((key) => key.position !== null).map((key) => key.userId))];
+    const conditions = [];
+    if (userIds.length > 0) {
+        conditions.push(`(parent_id IS NULL AND user_id IN (${userIds.map(() => '?').join(', ')}))`);
+    }
+    if (parentIds.length > 0) {
+        conditions.push(`parent_id IN (SELECT p.id FROM todos p WHERE p.pubkey = todos.pubkey AND p.deleted_at IS NULL
+            AND p.parent_id IS NULL AND p.user_id IN (${parentIds.map(() => '?').join(', ')}))`);
+    }
+    if (conditions.length === 0) return [];
+    const { results } = await env.nostr_todo.prepare(
+        `SELECT ${TODO_COLUMNS} FROM todos WHERE pubkey = ? AND deleted_at IS NULL AND (${conditions.join(' OR ')})`
+    ).bind(pubkey, ...userIds, ...parentIds).all();
+    const labels = keys.map(formatTodoKey);
+    return results.filter((row) => labels.includes(todoLabel(row)));
+}
+
+async function findTodoByKey(env: Env, pubkey: string, key: TodoKey): Promise<any | null> {
+    const [row] = await findTodos(env, pubkey, [key]);
+    return row ?? null;
+}
+
+// Set todo.subtasks on each todo that has subtasks
+async function attachSubtasks(env: Env, pubkey: string, todos: any[]): Promise<void> {
+    if (!todos.some((todo) => todo.subtask_count > 0)) return;
+    const { results } = await env.nostr_todo.prepare(
+        `SELECT ${TODO_COLUMNS} FROM todos WHERE pubkey = ? AND parent_id IS NOT NULL AND deleted_at IS NULL ORDER BY position ASC`
+    ).bind(pubkey).all();
+    for (const todo of todos) {
+        if (todo.subtask_count > 0) {
+            todo.subtasks = results.filter((row: any) => row.parent_id === todo.id);
+        }
+    }
+}
+
+// Write an audit log row. before is null for add, after is the state right after the change.
+// eventId is the id of the event that caused the change.
+async function recordHistory(env: Env, action: string, before: any | null, after: any, eventId: string | null): Promise<void> {
+    await historyStatement(env, action, before, after, eventId).run();
+}
+
+function historyStatement(env: Env, action: string, before: any | null, after: any, eventId: string | null): D1PreparedStatement {
+    return env.nostr_todo.prepare(
+        `INSERT INTO todo_history (todo_id, pubkey, user_id, action, before, after, event_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+        after.id,
+        after.pubkey,
+        after.user_id,
+        action,
+        before ? JSON.stringify(toSnapshot(before)) : null,
+        JSON.stringify(toSnapshot(after)),
+        eventId,
+        Math.floor(Date.now() / 1000),
+    );
+}
+
+type TodoInput = {
+    content: string;
+    due_at: number | null;
+    priority: number | null;
+    tags: string[];
+    // JSON of a RepeatRule
+    repeat_rule?: string | null;
+    // Set for subtasks, which are numbered within their parent instead of by user_id
+    parent_id?: number | null;
+    // Pubkey of the user the todo is handed to
+    assignee?: string | null;
+    // The event the todo was created from and its author, so that a NIP-09 deletion of that event
+    // removes the todo. Default to the eventId passed to insertTodo and the owner.
+    event_id?: string | null;
+    created_by?: string | null;
+};
+
+type TodoChanges = Partial<TodoInput>;
+
+// The note a todo was captured from
+type TodoRef = {
+    id: string;
+    relays: string[];
+    pubkey: string | null;
+    content: string | null;
+};
+
+// previousId links the next occurrence of a recurring todo to the one that was completed
+async function insertTodo(env: Env, pubkey: string, input: TodoInput, eventId: string | null, ref: TodoRef | null = null, previousId: number | null = null): Promise<any> {
+    const inserted: any = await env.nostr_todo.prepare(
+        `INSERT INTO todos (pubkey, content, completed, created_at, user_id, position, due_at, priority, ref_event_id, ref_pubkey, ref_content, repeat_rule, previous_id, parent_id, assignee, event_id, created_by)
+         VALUES (?1, ?2, 0, ?3,
+             CASE WHEN ?11 IS NULL THEN (SELECT COALESCE(MAX(user_id), 0) + 1 FROM todos WHERE pubkey = ?1) END,
+             CASE WHEN ?11 IS NOT NULL THEN (SELECT COALESCE(MAX(position), 0) + 1 FROM todos WHERE parent_id = ?11) END,
+             ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14)
+         RETURNING id`
+    ).bind(
+        pubkey, input.content, Math.floor(Date.now() / 1000), input.due_at, input.priority,
+        ref ? ref.id : null, ref ? ref.pubkey : null, ref ? ref.content : null,
+        input.repeat_rule ?? null, previousId, input.parent_id ?? null, input.assignee ?? null,
+        input.event_id !== undefined ? input.event_id : eventId, input.created_by ?? pubkey,
+    ).first();
+    if (input.tags.length > 0) {
+        await setTodoTags(env, inserted.id, input.tags);
+    }
+    const todo = await findTodoById(env, inserted.id);
+    await recordHistory(env, 'add', null, todo, eventId);
+    return todo;
+}
+
+// Change the given fields of a todo and record the change. Returns the updated todo.
+async function updateTodo(env: Env, before: any, changes: TodoChanges, eventId: string | null): Promise<any> {
+    const sets: string[] = [];
+    const params: any[] = [];
+    if (changes.content !== undefined) {
+        sets.push('content = ?');
+        params.push(changes.content);
+    }
+    if (changes.due_at !== undefined) {
+        sets.push('due_at = ?', 'reminded_at = NULL');
+        params.push(changes.due_at);
+    }
+    if (changes.priority !== undefined) {
+        sets.push('priority = ?');
+        params.push(changes.priority);
+    }
+    if (changes.repeat_rule !== undefined) {
+        sets.push('repeat_rule = ?');
+        params.push(changes.repeat_rule);
+    }
+    if (changes.assignee !== undefined) {
+        sets.push('assignee = ?');
+        params.push(changes.assignee);
+    }
+    if (sets.length > 0) {
+        await env.nostr_todo.prepare(
+            `UPDATE todos SET ${sets.join(', ')} WHERE id = ?`
+        ).bind(...params, before.id).run();
+    }
+    if (changes.tags !== undefined) {
+        await setTodoTags(env, before.id, changes.tags);
+    }
+    const after = await findTodoById(env, before.id);
+    await recordHistory(env, 'update', before, after, eventId);
+    return after;
+}
+
+// Remove the todos matching condition for good, unlike delete: with all their subtasks, tags, history
+// and reply mappings, so that no copy of the content is left. Returns the number of todos removed.
+async function purgeTodos(env: Env, condition: string, params: any[]): Promise<number> {
+    const ids = `WITH RECURSIVE tree(id) AS (
+        SELECT id FROM todos WHERE ${condition}
+        UNION SELECT todos.id FROM todos JOIN tree ON todos.parent_id = tree.id
+    )`;
+    const results = await env.nostr_todo.batch([
+        env.nostr_todo.prepare(`${ids} DELETE FROM todo_tags WHERE todo_id IN tree`).bind(...params),
+        env.nostr_todo.prepare(`${ids} DELETE FROM todo_history WHERE todo_id IN tree`).bind(...params),
+        env.nostr_todo.prepare(`${ids} DELETE FROM reply_events WHERE todo_id IN tree`).bind(...params),
+        env.nostr_todo.prepare(`${ids} DELETE FROM todos WHERE id IN tree RETURNING id`).bind(...params),
+    ]);
+    // meta.changes would also count the rows the full-text index triggers write
+    return results[3].results.length;
+}
+
+// Column changes applied by the batch commands, keyed by history action
+const TODO_ACTIONS: Record<string, { applies: (row: any) => boolean; changes: () => Record<string, any> }> = {
+    done: {
+        applies: (row) => row.completed === 0,
+        changes: () => ({ completed: 1, completed_at: Math.floor(Date.now() / 1000) }),
+    },
+    reopen: {
+        applies: (row) => row.completed === 1,
+        changes: () => ({ completed: 0, completed_at: null, archived_at: null }),
+    },
+    delete: {
+        applies: () => true,
+        // Soft delete so that undo can bring it back
+        changes: () => ({ deleted_at: Math.floor(Date.now() / 1000) }),
+    },
+    archive: {
+        applies: (row) => row.completed === 1 && row.archived_at == null,
+        changes: () => ({ archived_at: Math.floor(Date.now() / 1000) }),
+    },
+};
+
+// Apply an action to several todos in one D1 batch, recording history for each.
+// Returns the todos the action was applied to.
+async function applyTodoAction(env: Env, action: string, rows: any[], eventId: string | null): Promise<any[]> {
+    const def = TODO_ACTIONS[action];
+    const applied = rows.filter(def.applies);
+    if (applied.length === 0) return [];
+    const changes = def.changes();
+    const columns = Object.keys(changes);
+    await env.nostr_todo.batch(applied.flatMap((row) => [
+        env.nostr_todo.prepare(
+            `UPDATE todos SET ${columns.map((c) => `${c} = ?`).join(', ')} WHERE id = ?`
+        ).bind(...Object.values(changes), row.id),
+        historyStatement(env, action, row, { ...row, ...changes }, eventId),
+    ]));
+    if (action === 'done') {
+        for (const row of applied) {
+            await scheduleNextOccurrence(env, row, eventId);
+        }
+    }
+    return applied;
+}
+
+// Create the next occurrence of a recurring todo that was completed, unless an earlier
+// completion already did. Overdue occurrences are skipped up to the first one in the future.
+// Its subtasks are copied as a fresh checklist. Nothing is created when the copy would go over
+// the open todo limit of the list.
+async function scheduleNextOccurrence(env: Env, row: any, eventId: string | null): Promise<any | null> {
+    const rule = getRepeatRule(row);
+    if (!rule) return null;
+    const existing = await env.nostr_todo.prepare(
+        'SELECT id FROM todos WHERE previous_id = ? AND deleted_at IS NULL'
+    ).bind(row.id).first();
+    if (existing) return null;
+    const { results: subtasks } = await env.nostr_todo.prepare(
+        `SELECT ${TODO_COLUMNS} FROM todos WHERE parent_id = ? AND deleted_at IS NULL ORDER BY position ASC`
+    ).bind(row.id).all();
+    if (await checkQuota(env, row.pubkey, row.created_by ?? row.pubkey, [], 1 + subtasks.length)) return null;
+
+    const { timezone } = await getUserSettings(env, row.pubkey);
+    const now = Math.floor(Date.now() / 1000);
+    let dueAt = nextOccurrence(rule, row.due_at ?? now, timezone);
+    while (dueAt <= now) {
+        dueAt = nextOccurrence(rule, dueAt, timezone);
+    }
+    const ref = row.ref_event_id
+        ? { id: row.ref_event_id, relays: [], pubkey: row.ref_pubkey, content: row.ref_content }
+        : null;
+    const next = await insertTodo(env, row.pubkey, {
+        content: row.content,
+        due_at: dueAt,
+        priority: row.priority,
+        tags: getTags(row),
+        repeat_rule: row.repeat_rule,
+        assignee: row.assignee,
+        // The content still comes from the original mention
+        event_id: row.event_id,
+        created_by: row.created_by,
+    }, eventId, ref, row.id);
+
+    for (const subtask of subtasks as any[]) {
+        await insertTodo(env, row.pubkey, {
+            content: subtask.content,
+            due_at: null,
+            priority: subtask.priority,
+            tags: getTags(subtask),
+            parent_id: next.id,
+            assignee: subtask.assignee,
+            event_id: subtask.event_id,
+            created_by: subtask.created_by,
+        }, eventId);
+    }
+    return next;
+}
+
+const MAX_BATCH_IDS = 50;
+
+// Parse an id list such as "1,3,5-8" or "3.1-3.4". Returns null if the list is malformed or too long.
+function parseIdList(text: string): TodoKey[] | null {
+    const keys: TodoKey[] = [];
+    for (const part of text.trim().split(/\s*,\s*|\s+/)) {
+        const m = part.match(/^(\d+)(?:\.(\d+))?(?:-(?:(\d+)\.)?(\d+))?$/);
+        if (!m) return null;
+        // A subtask range stays within one parent
+        if (m[3] && (!m[2] || m[3] !== m[1])) return null;
+        const userId = parseInt(m[1]);
+        const from = parseInt(m[2] || m[1]);
+        const to = m[4] ? parseInt(m[4]) : from;
+        if (to < from || to - from >= MAX_BATCH_IDS) return null;
+        for (let n = from; n <= to; n++) {
+            const key = m[2] ? { userId, position: n } : { userId: n, position: null };
+            if (!keys.some((k) => formatTodoKey(k) === formatTodoKey(key))) keys.push(key);
+        }
+        if (keys.length > MAX_BATCH_IDS) return null;
+    }
+    return keys;
+}
+
+// Compact user_id values to 1..n over visible todos, and subtask positions to 1..n within
+// each parent. Archived and deleted todos lose their number and get a new one if they are restored.
+async function renumberTodos(env: Env, pubkey: string): Promise<number> {
+    const { results } = await env.nostr_todo.prepare(
+        `SELECT id FROM todos WHERE pubkey = ? AND parent_id IS NULL AND deleted_at IS NULL AND archived_at IS NULL
+         ORDER BY user_id ASC`
+    ).bind(pubkey).all();
+    const { results: subtasks } = await env.nostr_todo.prepare(
+        `SELECT id, parent_id FROM todos WHERE pubkey = ? AND parent_id IS NOT NULL AND deleted_at IS NULL
+         ORDER BY parent_id ASC, position ASC`
+    ).bind(pubkey).all();
+    const positions = new Map<number, number>();
+    // Clear numbers first so that idx_pubkey_user_id_unique is never violated midway
+    await env.nostr_todo.batch([
+        env.nostr_todo.prepare('UPDATE todos SET user_id = NULL WHERE pubkey = ?').bind(pubkey),
+        ...results.map((row: any, i: number) => env.nostr_todo.prepare(
+            'UPDATE todos SET user_id = ? WHERE id = ?'
+        ).bind(i + 1, row.id)),
+        ...subtasks.map((row: any) => {
+            const position = (positions.get(row.parent_id) ?? 0) + 1;
+            positions.set(row.parent_id, position);
+            return env.nostr_todo.prepare('UPDATE todos SET position = ? WHERE id = ?').bind(position, row.id);
+        }),
+        // History follows the new numbers, and loses them with archived and deleted todos
+        env.nostr_todo.prepare(
+            'UPDATE todo_history SET user_id = (SELECT user_id FROM todos WHERE todos.id = todo_history.todo_id) WHERE pubkey = ?'
+        ).bind(pubkey),
+    ]);
+    return results.length;
+}
+
+// Put a todo back into a previously recorded state. A null snapshot means the todo did not exist.
+async function restoreSnapshot(env: Env, todoId: number, snapshot: TodoSnapshot | null): Promise<void> {
+    if (!snapshot) {
+        await env.nostr_todo.prepare(
+            'UPDATE todos SET deleted_at = ? WHERE id = ?'
+        ).bind(Math.floor(Date.now() / 1000), todoId).run();
+        return;
+    }
+    // A todo that lost its number through renumber gets the next free one
+    await env.nostr_todo.prepare(
+        `UPDATE todos SET content = ?, completed = ?, completed_at = ?, due_at = ?, priority = ?, deleted_at = ?, archived_at = ?, repeat_rule = ?, assignee = ?, reminded_at = NULL,
+         user_id = CASE WHEN parent_id IS NULL
+             THEN COALESCE(user_id, (SELECT COALESCE(MAX(t2.user_id), 0) + 1 FROM todos t2 WHERE t2.pubkey = todos.pubkey)) END
+         WHERE id = ?`
+    ).bind(snapshot.content, snapshot.completed, snapshot.completed_at ?? null, snapshot.due_at, snapshot.priority, snapshot.deleted_at, snapshot.archived_at ?? null, snapshot.repeat_rule ?? null, snapshot.assignee ?? null, todoId).run();
+    await setTodoTags(env, todoId, snapshot.tags);
+}
+
+// Open todos count towards the limit of a list
+function isOpenTodo(todo: { completed: number; deleted_at?: number | null }): boolean {
+    return todo.completed === 0 && todo.deleted_at == null;
+}
+
+function previewText(text: string, length: number = 20): string {
+    const cleaned = text.replace(/\s+/g, ' ').trim();
+    return cleaned.length > length ? `${cleaned.substring(0, length)}...` : cleaned;
+}
+
+function describeHistory(row: any, timeZone: string = TIME_ZONE): string {
+    const before: TodoSnapshot | null = row.before ? JSON.parse(row.before) : null;
+    const after: TodoSnapshot = JSON.parse(row.after);
+    const changes: string[] = [];
+    if (!before) {
+        changes.push(previewText(after.content));
+    } else {
+        if (before.content !== after.content) {
+            changes.push(`${previewText(before.content)} → ${previewText(after.content)}`);
+        }
+        if (before.due_at !== after.due_at) {
+            changes.push(`due ${after.due_at != null ? formatDueDate(after.due_at, timeZone) : 'none'}`);
+        }
+        if (before.priority !== after.priority) {
+            changes.push(`!${after.priority ? PRIORITY_NAMES[after.priority] : 'none'}`);
+        }
+        if (before.tags.join(' ') !== after.tags.join(' ')) {
+            changes.push(after.tags.map((tag) => `#${tag}`).join(' ') || 'no tags');
+        }
+        if ((before.assignee ?? null) !== (after.assignee ?? null)) {
+            changes.push(`assignee ${after.assignee ? shortNpub(after.assignee) : 'none'}`);
+        }
+    }
+    const detail = changes.length > 0 && row.action !== 'delete' ? `: ${changes.join(', ')}` : '';
+    return `${formatDueDate(row.created_at, timeZone)} ${row.action}${detail}${row.undone ? ' (undone)' : ''}`;
+}
+
+type TodoStats = {
+    openedThisWeek: number;
+    closedThisWeek: number;
+    // Average seconds from creation to completion over the todos closed this week
+    averageSeconds: number | null;
+    streak: number;
+    // Completions per day, keyed by dayNumber
+    days: Map<number, number>;
+};
+
+// Days covered by the heatmap on the web view, which also caps the streak
+const STATS_DAYS = 52 * 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The date of time in the time zone, as days since 1970-01-01. Days are counted instead of kept as
+// unix times so that the streak and heatmap step through them without converting each one.
+function dayNumber(time: number, timeZone: string = TIME_ZONE): number {
+    const p = getZonedParts(new Date(time * 1000), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day) / DAY_MS;
+}
+
+// Unix time of midnight in the time zone at the start of a day number
+function dayStart(day: number, timeZone: string = TIME_ZONE): number {
+    const date = new Date(day * DAY_MS);
+    return zonedTimeToUnix(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), 0, 0, timeZone);
+}
+
+// 0 for Sunday; day 0 was a Thursday
+function dayOfWeek(day: number): number {
+    return (day + 4) % 7;
+}
+
+async function getTodoStats(env: Env, pubkey: string, now: number = Math.floor(Date.now() / 1000), timeZone: string = TIME_ZONE): Promise<TodoStats> {
+    const today = dayNumber(now, timeZone);
+    // Weeks start on Monday
+    const weekStart = dayStart(today - (dayOfWeek(today) + 6) % 7, timeZone);
+    // A week more than the heatmap shows, since its first column starts on a Sunday
+    const since = dayStart(today - (STATS_DAYS + 6), timeZone);
+
+    const week: any = await env.nostr_todo.prepare(
+        `SELECT
+            (SELECT COUNT(*) FROM todos WHERE pubkey = ?1 AND deleted_at IS NULL AND created_at >= ?2) AS opened,
+            (SELECT COUNT(*) FROM todos WHERE pubkey = ?1 AND deleted_at IS NULL AND completed = 1 AND completed_at >= ?2) AS closed,
+            (SELECT AVG(completed_at - created_at) FROM todos WHERE pubkey = ?1 AND deleted_at IS NULL AND completed = 1 AND completed_at >= ?2) AS average`
+    ).bind(pubkey, weekStart).first();
+
+    const { results } = await env.nostr_todo.prepare(
+        `SELECT completed_at FROM todos WHERE pubkey = ? AND deleted_at IS NULL AND completed = 1 AND completed_at >= ?`
+    ).bind(pubkey, since).all();
+    const days = new Map<number, number>();
+    for (const row of results as any[]) {
+        const day = dayNumber(row.completed_at, timeZone);
+        days.set(day, (days.get(day) ?? 0) + 1);
+    }
+
+    // A streak still counts until the end of today even if nothing was finished yet today
+    let streak = 0;
+    let day = days.has(today) ? today : today - 1;
+    while (days.has(day)) {
+        streak++;
+        day--;
+    }
+
+    return {
+        openedThisWeek: week.opened,
+        closedThisWeek: week.closed,
+        averageSeconds: week.average != null ? Math.round(week.average) : null,
+        streak,
+        days,
+    };
+}
+
+function formatDuration(seconds: number): string {
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}m`;
+}
+
+function formatStats(stats: TodoStats, messages: Messages = MESSAGES_EN): string {
+    return `${messages.stats.title}
+${messages.stats.opened}: ${stats.openedThisWeek}
+${messages.stats.closed}: ${stats.closedThisWeek}
+${messages.stats.average}: ${stats.averageSeconds != null ? formatDuration(stats.averageSeconds) : '-'}
+${messages.stats.streak(stats.streak)}`;
+}
+
+// An event id or pubkey in a tag, which must be 64 lowercase hex characters before it is stored or encoded
+function isHexId(value: string | undefined): value is string {
+    return value !== undefined && /^[0-9a-f]{64}$/.test(value);
+}
+
+// The NIP-28 channel a kind 42 message was posted in, which is the root of its thread
+function getChannelId(event: Event): string | null {
+    if (event.kind !== 42) return null;
+    const tag = event.tags.find((tag) => tag[0] === 'e' && tag[3] === 'root') ?? event.tags.find((tag) => tag[0] === 'e');
+    return tag && isHexId(tag[1]) ? tag[1] : null;
+}
+
+// A channel's shared list is stored like a user's list, under the channel id with this prefix in place
+// of the pubkey, so that a channel id can never address a user's list
+const CHANNEL_LIST_PREFIX = 'channel:';
+
+function channelListKey(channel: string): string {
+    return CHANNEL_LIST_PREFIX + channel;
+}
+
+// The channel id of a list, or null for a user's list
+function channelOfList(pubkey: string): string | null {
+    return pubkey.startsWith(CHANNEL_LIST_PREFIX) ? pubkey.substring(CHANNEL_LIST_PREFIX.length) : null;
+}
+
+async function isChannel(env: Env, channel: string): Promise<boolean> {
+    return await env.nostr_todo.prepare('SELECT 1 FROM channels WHERE id = ?').bind(channel).first() !== null;
+}
+
+// Register a channel the first time its list is used. The e tag of a kind 42 message can name any id,
+// so only the id of a verified kind 40 creation event is accepted, and never the pubkey of a known user.
+async function registerChannel(env: Env, channel: string): Promise<boolean> {
+    if (await isChannel(env, channel)) return true;
+    const user = await env.nostr_todo.prepare(
+        `SELECT 1 FROM todos WHERE pubkey = ? OR created_by = ?
+         UNION ALL SELECT 1 FROM user_settings WHERE pubkey = ?
+         UNION ALL SELECT 1 FROM profiles WHERE pubkey = ? LIMIT 1`
+    ).bind(channel, channel, channel, channel).first();
+    if (user) return false;
+    const created = await pool.get(await getRelays(env), { ids: [channel], kinds: [40] }, { maxWait: 3000 });
+    if (!created || created.id !== channel || !verifyEvent(created)) return false;
+    await env.nostr_todo.prepare(
+        'INSERT OR IGNORE INTO channels (id, created_at) VALUES (?, ?)'
+    ).bind(channel, Math.floor(Date.now() / 1000)).run();
+    return true;
+}
+
+// Name and picture of a channel from its kind 40 creation event, or the creator's latest kind 41 update
+async function fetchChannelProfile(env: Env, channel: string): Promise<{ name: string; picture: string } | null> {
+    const relays = await getRelays(env);
+    const created = await pool.get(relays, { ids: [channel], kinds: [40] }, { maxWait: 3000 });
+    if (!created || !verifyEvent(created)) return null;
+    const updates = await pool.querySync(relays, { kinds: [41], '#e': [channel], authors: [created.pubkey] }, { maxWait: 3000 });
+    const latest = [created, ...updates.filter((event) => verifyEvent(event))]
+        .sort((a, b) => b.created_at - a.created_at)[0];
+    try {
+        const metadata = JSON.parse(latest.content);
+        return { name: metadata.name || '', picture: metadata.picture || '' };
+    } catch (e) {
+        return null;
+    }
+}
+
+// An npub, nprofile or hex pubkey, with or without the nostr: prefix
+function decodePubkey(text: string): string | null {
+    if (/^[0-9a-f]{64}$/i.test(text)) return text.toLowerCase();
+    try {
+        const decoded = nip19.decode(text.replace(/^nostr:/, ''));
+        if (decoded.type === 'npub') return decoded.data;
+        if (decoded.type === 'nprofile') return decoded.data.pubkey;
+    } catch (e) {
+        // Not a NIP-19 entity
+    }
+    return null;
+}
+
+// The user to assign to: the key given in the command, or else the first user other than the bot
+// mentioned in the note, since clients insert "@name" as nostr:npub… which cleanContent removes
+function getAssignee(arg: string | undefined, mention: Event, botPubkey: string): string | null {
+    if (arg) return decodePubkey(arg);
+    for (const m of mention.content.matchAll(/nostr:((?:npub|nprofile)1[a-z0-9]+)/gi)) {
+        const pubkey = decodePubkey(m[1]);
+        if (pubkey && pubkey !== botPubkey) return pubkey;
+    }
+    return null;
+}
+
+// The note a mention replies to or quotes: a q tag first, then the NIP-10 reply, then the root.
+// Only public notes count; in channels the root is the channel itself, and DMs never capture notes.
+function getReferencedEvent(event: Event): TodoRef | null {
+    if (event.kind !== 1 && event.kind !== 42) return null;
+    const eTags = event.tags.filter((tag) => tag[0] === 'e' && isHexId(tag[1]));
+    const tag = event.tags.find((tag) => tag[0] === 'q' && isHexId(tag[1]))
+        ?? eTags.find((tag) => tag[3] === 'reply')
+        ?? (event.kind === 1 ? eTags.find((tag) => tag[3] === 'root') : undefined)
+        // Deprecated positional e tags: the last one is the replied-to note
+        ?? (event.kind === 1 ? eTags.filter((tag) => !tag[3]).pop() : undefined);
+    if (!tag) return null;
+    return {
+        id: tag[1],
+        relays: tag[2] ? [tag[2]] : [],
+        pubkey: tag[0] === 'e' && isHexId(tag[4]) ? tag[4] : null,
+        content: null,
+    };
+}
+
+// Fill in the author and text of the referenced note from the relays
+async function fetchReferencedNote(env: Env, ref: TodoRef): Promise<TodoRef> {
+    try {
+        const note = await pool.get([...new Set([...ref.relays, ...await getRelays(env)])], { ids: [ref.id] }, { maxWait: 3000 });
+        if (note && note.id === ref.id && verifyEvent(note)) {
+            return { ...ref, pubkey: note.pubkey, content: note.content };
+        }
+    } catch (e) {
+        console.error('Failed to fetch referenced note:', e);
+    }
+    return ref;
+}
+
+// Remove nostr: links to the given event, which clients put in the text when quoting it, together with
+// the spaces before them. Line breaks elsewhere in the text are kept.
+function removeNostrRef(text: string, eventId: string): string {
+    return text.replace(/[ \t]*nostr:((?:nevent|note)1[a-z0-9]+)/gi, (match, code: string) => {
+        try {
+            const decoded = nip19.decode(code);
+            if (decoded.type === 'note') return decoded.data === eventId ? '' : match;
+            if (decoded.type === 'nevent') return decoded.data.id === eventId ? '' : match;
+            return match;
+        } catch {
+            return match;
+        }
+    }).trim();
+}
+
+function encodeRef(todo: any): string {
+    return nip19.neventEncode({ id: todo.ref_event_id, author: todo.ref_pubkey ?? undefined });
+}
+
+// Split "- [ ] item" / "- [x] item" lines off the text of a todo; they become its subtasks
+function parseChecklist(text: string): { rest: string; items: { content: string; done: boolean }[] } {
+    const items = [];
+    const lines = [];
+    for (const line of text.split('\n')) {
+        const m = line.match(/^\s*[-*]\s*\[([ xX]?)\]\s*(.+)$/);
+        if (m) {
+            items.push({ content: m[2].trim(), done: m[1].toLowerCase() === 'x' });
+        } else {
+            lines.push(line);
+        }
+    }
+    return { rest: lines.join('\n').trim(), items };
+}
+
+const MAX_IMPORT_ITEMS = 200;
+const MAX_IMPORT_BYTES = 256 * 1024;
+
+type ImportItem = {
+    content: string;
+    completed: boolean;
+    created_at: number | null;
+    completed_at: number | null;
+    due_at: number | null;
+    priority: number | null;
+    tags: string[];
+    subtasks: ImportItem[];
+};
+
+function parseImportDate(text: string, hour: number = 0, timeZone: string = TIME_ZONE): number {
+    const [year, month, day] = text.split('-').map((n) => parseInt(n));
+    return zonedTimeToUnix(year, month, day, hour, 0, timeZone);
+}
+
+// Items of the JSON that /npub….json or the API produce
+function parseImportJson(value: any): ImportItem[] {
+    const list = Array.isArray(value) ? value
+        : Array.isArray(value?.todos) ? value.todos
+        : [...(value?.todos?.incomplete ?? []), ...(value?.todos?.completed ?? [])];
+    const time = (t: any) => (typeof t === 'number' && t > 0 ? Math.floor(t) : null);
+    return list.filter((todo: any) => typeof todo?.content === 'string' && todo.content.trim()).map((todo: any): ImportItem => ({
+        content: todo.content.trim(),
+        completed: todo.completed === true || todo.completed === 1,
+        created_at: time(todo.created_at),
+        completed_at: time(todo.completed_at),
+        due_at: time(todo.due_at),
+        priority: parsePriority(String(todo.priority ?? '')),
+        tags: Array.isArray(todo.tags) ? todo.tags.filter((tag: any) => typeof tag === 'string').map((tag: string) => tag.toLowerCase()) : [],
+        subtasks: Array.isArray(todo.subtasks) ? parseImportJson(todo.subtasks) : [],
+    }));
+}
+
+// A todo.txt line: [x [done date]] [(A)] [created date] text +project due:YYYY-MM-DD
+function parseTodoTxtLine(line: string, timeZone: string = TIME_ZONE): ImportItem {
+    let rest = line.trim();
+    let m: RegExpMatchArray | null;
+    const item: ImportItem = { content: '', completed: false, created_at: null, completed_at: null, due_at: null, priority: null, tags: [], subtasks: [] };
+    if ((m = rest.match(/^x\s+(?:(\d{4}-\d{2}-\d{2})\s+(?=\d{4}-\d{2}-\d{2}))?/))) {
+        item.completed = true;
+        if (m[1]) item.completed_at = parseImportDate(m[1], 0, timeZone);
+        rest = rest.substring(m[0].length);
+    }
+    if ((m = rest.match(/^\(([A-C])\)\s+/))) {
+        item.priority = 'ABC'.indexOf(m[1]) + 1;
+        rest = rest.substring(m[0].length);
+    }
+    if ((m = rest.match(/^(\d{4}-\d{2}-\d{2})\s+/))) {
+        item.created_at = parseImportDate(m[1], 0, timeZone);
+        rest = rest.substring(m[0].length);
+    }
+    // Some tools keep the priority of completed tasks after the dates, or as pri:A
+    if (item.priority === null && (m = rest.match(/^\(([A-C])\)\s+/))) {
+        item.priority = 'ABC'.indexOf(m[1]) + 1;
+        rest = rest.substring(m[0].length);
+    }
+    item.content = rest
+        .replace(/(^|\s)pri:([A-C])(?=\s|$)/g, (_match, _sp, priority) => {
+            item.priority = 'ABC'.indexOf(priority) + 1;
+            return '';
+        })
+        .replace(/(^|\s)\+(\S+)/g, (_match, _sp, tag) => {
+            item.tags.push(tag.toLowerCase());
+            return '';
+        })
+        .replace(/(^|\s)due:(\d{4}-\d{2}-\d{2})(?=\s|$)/g, (_match, _sp, date) => {
+            item.due_at = parseImportDate(date, DEFAULT_DUE_HOUR, timeZone);
+            return '';
+        })
+        // The id: key of this bot's own todo.txt export
+        .replace(/(^|\s)id:[\d.]+(?=\s|$)/g, '')
+        .trim();
+    return item;
+}
+
+// Markdown checklist lines ("- [ ]", "- [x]", indented ones become subtasks of the item above)
+// and todo.txt lines. Other Markdown lines such as headings are ignored.
+function parseImportText(text: string, timeZone: string = TIME_ZONE): ImportItem[] {
+    const items: ImportItem[] = [];
+    for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        const checkbox = line.match(/^(\s*)[-*]\s*\[([ xX]?)\]\s*(.+)$/);
+        if (checkbox) {
+            const attrs = parseTodoAttributes(checkbox[3]);
+            const item: ImportItem = {
+                content: attrs.rest, completed: checkbox[2].toLowerCase() === 'x', created_at: null, completed_at: null,
+                due_at: null, priority: attrs.priority, tags: attrs.tags, subtasks: [],
+            };
+            const parent = items[items.length - 1];
+            if (checkbox[1].length > 0 && parent) {
+                parent.subtasks.push(item);
+            } else {
+                items.push(item);
+            }
+        } else if (!/^\s*(#|[-*]\s|>|```)/.test(line)) {
+            items.push(parseTodoTxtLine(line, timeZone));
+        }
+    }
+    return items.filter((item) => item.content);
+}
+
+function parseImport(text: string, timeZone: string = TIME_ZONE): ImportItem[] {
+    const trimmed = text.trim();
+    if (/^[\[{]/.test(trimmed)) {
+        try {
+            return parseImportJson(JSON.parse(trimmed));
+        } catch (e) {
+            // Not JSON after all
+        }
+    }
+    return parseImportText(trimmed, timeZone);
+}
+
+// Redirects followed when fetching an import, each checked like the URL itself
+const MAX_IMPORT_REDIRECTS = 3;
+
+// Imports are fetched from public http(s) URLs only, never from hosts on a local or private network
+function isImportUrl(value: string): boolean {
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch (e) {
+        return false;
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return false;
+    const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    // Single-label names such as "localhost" or "router" only resolve on a local network
+    if ((!host.includes('.') && !host.includes(':')) || /\.(localhost|local|internal)$/.test(host)) return false;
+    const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+    if (ipv4) {
+        const [a, b] = [parseInt(ipv4[1]), parseInt(ipv4[2])];
+        return !(a === 0 || a === 10 || a === 127 || a >= 224 || (a === 100 && b >= 64 && b < 128)
+            || (a === 169 && b === 254) || (a === 172 && b >= 16 && b < 32) || (a === 192 && b === 168));
+    }
+    if (host.includes(':')) {
+        // Loopback, unspecified, unique local (fc00::/7), link-local (fe80::/10) and IPv4-mapped addresses
+        return !(host === '::1' || host === '::' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('::ffff:'));
+    }
+    return true;
+}
+
+// Fetch the text to import from a URL, reading at most MAX_IMPORT_BYTES. Throws with a message
+// suitable for the reply.
+async function fetchImportText(url: string): Promise<string> {
+    let response: Response;
+    let location = url;
+    for (let redirects = 0; ; redirects++) {
+        if (!isImportUrl(location)) throw new Error(`Cannot import from ${location}`);
+        response = await fetch(location, { signal: AbortSignal.timeout(10000), redirect: 'manual' });
+        const next = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !next) break;
+        if (redirects === MAX_IMPORT_REDIRECTS) throw new Error(`Too many redirects: ${url}`);
+        location = new URL(next, location).href;
+    }
+    if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    if (parseInt(response.headers.get('content-length') ?? '0') > MAX_IMPORT_BYTES) {
+        await response.body?.cancel();
+        throw new Error(`Too large to import: ${url}`);
+    }
+    if (!response.body) return '';
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    let bytes = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        bytes += value.byteLength;
+        if (bytes > MAX_IMPORT_BYTES) {
+            await reader.cancel();
+            throw new Error(`Too large to import: ${url}`);
+        }
+        text += decoder.decode(value, { stream: true });
+    }
+    return text + decoder.decode();
+}
+
+// Create the items in one D1 batch, which runs as a single transaction: each todo takes the next
+// user_id inside the transaction, so concurrent adds cannot race for the same number. Items whose
+// content matches an existing todo are skipped, and so are subtasks that the matching todo already has;
+// its other subtasks are added to it. History is recorded so that undo reverts the import.
+async function importTodos(env: Env, pubkey: string, items: ImportItem[], eventId: string | null, createdBy: string = pubkey): Promise<{ imported: number; skipped: number }> {
+    const { results: existing } = await env.nostr_todo.prepare(
+        'SELECT id, content, parent_id FROM todos WHERE pubkey = ? AND deleted_at IS NULL'
+    ).bind(pubkey).all();
+    // Top-level todos by content, with null for those added by this import, and the subtasks of each
+    const parents = new Map<string, number | null>();
+    const subtasks = new Map<number, Set<string>>();
+    for (const row of existing as any[]) {
+        if (row.parent_id === null) {
+            parents.set(row.content, row.id);
+        } else {
+            if (!subtasks.has(row.parent_id)) subtasks.set(row.parent_id, new Set());
+            subtasks.get(row.parent_id)!.add(row.content);
+        }
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const latestId = '(SELECT MAX(id) FROM todos WHERE pubkey = ?)';
+    const statements: D1PreparedStatement[] = [];
+    let imported = 0;
+    let skipped = 0;
+    // parent is null for a top-level todo, 'new' for a subtask of the todo added just before it,
+    // or the id of an existing todo
+    const add = (item: ImportItem, parent: number | 'new' | null) => {
+        const createdAt = item.created_at ?? now;
+        const completedAt = item.completed ? item.completed_at ?? createdAt : null;
+        const parentSql = parent === 'new' ? '(SELECT MAX(id) FROM todos WHERE pubkey = ?1 AND parent_id IS NULL)' : '?10';
+        statements.push(env.nostr_todo.prepare(
+            parent !== null
+                ? `INSERT INTO todos (pubkey, content, completed, completed_at, created_at, due_at, priority, event_id, created_by, parent_id, position)
+                   VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ${parentSql},
+                       (SELECT COALESCE(MAX(position), 0) + 1 FROM todos WHERE parent_id = ${parentSql}))`
+                : `INSERT INTO todos (pubkey, content, completed, completed_at, created_at, due_at, priority, event_id, created_by, user_id)
+                   VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, (SELECT COALESCE(MAX(user_id), 0) + 1 FROM todos WHERE pubkey = ?1))`
+        ).bind(pubkey, item.content, item.completed ? 1 : 0, completedAt, createdAt, item.due_at, item.priority, eventId, createdBy,
+            ...(typeof parent === 'number' ? [parent] : [])));
+        for (const tag of [...new Set(item.tags)]) {
+            statements.push(env.nostr_todo.prepare(
+                `INSERT OR IGNORE INTO todo_tags (todo_id, tag) VALUES (${latestId}, ?)`
+            ).bind(pubkey, tag));
+        }
+        const snapshot = toSnapshot({
+            content: item.content, completed: item.completed ? 1 : 0, completed_at: completedAt, due_at: item.due_at,
+            priority: item.priority, tags: item.tags.join(' '), deleted_at: null, archived_at: null, repeat_rule: null,
+        });
+        statements.push(env.nostr_todo.prepare(
+            `INSERT INTO todo_history (todo_id, pubkey, user_id, action, before, after, event_id, created_at)
+             SELECT id, pubkey, user_id, 'add', NULL, ?, ?, ? FROM todos WHERE id = ${latestId}`
+        ).bind(JSON.stringify(snapshot), eventId, now, pubkey));
+        imported++;
+    };
+    for (const item of items) {
+        const parent = parents.get(item.content);
+        if (parent === undefined) {
+            parents.set(item.content, null);
+            add(item, null);
+            for (const subtask of item.subtasks) {
+                add(subtask, 'new');
+            }
+            continue;
+        }
+        skipped++;
+        if (parent === null) {
+            // An item repeated within this import is skipped along with its subtasks
+            skipped += item.subtasks.length;
+            continue;
+        }
+        if (!subtasks.has(parent)) subtasks.set(parent, new Set());
+        const known = subtasks.get(parent)!;
+        for (const subtask of item.subtasks) {
+            if (known.has(subtask.content)) {
+                skipped++;
+                continue;
+            }
+            known.add(subtask.content);
+            add(subtask, parent);
+        }
+    }
+    if (statements.length > 0) {
+        await env.nostr_todo.batch(statements);
+    }
+    return { imported, skipped };
+}
+
+function getHelpMessage(language: Language = 'ja'): string {
+    return MESSAGES[language].help;
+}
+
+// Per-pubkey limits, set with the RATE_LIMIT_PER_MINUTE, MAX_OPEN_TODOS and MAX_CONTENT_LENGTH vars.
+// 0 turns a limit off.
+type Limits = { commandsPerMinute: number; maxOpenTodos: number; maxContentLength: number };
+
+const DEFAULT_LIMITS: Limits = { commandsPerMinute: 20, maxOpenTodos: 1000, maxContentLength: 2000 };
+
+// Rate limit counters are kept this long, so that recently throttled users can be left off the top page
+const RATE_LIMIT_RETENTION_SECONDS = 24 * 60 * 60;
+
+function getLimits(env: Env): Limits {
+    const limit = (value: string | undefined, fallback: number) => {
+        const n = parseInt(value ?? '');
+        return n >= 0 ? n : fallback;
+    };
+    return {
+        commandsPerMinute: limit(env.RATE_LIMIT_PER_MINUTE, DEFAULT_LIMITS.commandsPerMinute),
+        maxOpenTodos: limit(env.MAX_OPEN_TODOS, DEFAULT_LIMITS.maxOpenTodos),
+        maxContentLength: limit(env.MAX_CONTENT_LENGTH, DEFAULT_LIMITS.maxContentLength),
+    };
+}
+
+// Pubkeys from a list of npubs or hex keys separated by commas or spaces
+function parsePubkeyList(text: string | undefined): string[] {
+    return (text || '').split(/[\s,]+/).map(decodePubkey).filter((pubkey): pubkey is string => pubkey !== null);
+}
+
+// Admins and LIMIT_EXEMPT_NPUBS are not limited
+function isLimitExempt(env: Env, pubkey: string): boolean {
+    return adminPubkeys(env).includes(pubkey) || parsePubkeyList(env.LIMIT_EXEMPT_NPUBS).includes(pubkey);
+}
+
+// Count a command of pubkey in the current minute, and tell whether it is within the rate limit
+async function consumeRateLimit(env: Env, pubkey: string): Promise<boolean> {
+    const { commandsPerMinute } = getLimits(env);
+    if (commandsPerMinute === 0 || isLimitExempt(env, pubkey)) return true;
+    const row: any = await env.nostr_todo.prepare(
+        `INSERT INTO rate_limits (pubkey, minute, count) VALUES (?, ?, 1)
+         ON CONFLICT (pubkey, minute) DO UPDATE SET count = count + 1 RETURNING count`
+    ).bind(pubkey, Math.floor(Date.now() / 1000 / 60)).first();
+    return row.count <= commandsPerMinute;
+}
+
+async function purgeRateLimits(env: Env): Promise<void> {
+    await env.nostr_todo.prepare(
+        'DELETE FROM rate_limits WHERE minute < ?'
+    ).bind(Math.floor((Date.now() / 1000 - RATE_LIMIT_RETENTION_SECONDS) / 60)).run();
+}
+
+// Check todos about to be written to the list of pubkey by sender: the length of each content,
+// and the number of open todos after adding count of them. Returns the reply when over a limit.
+async function checkQuota(env: Env, pubkey: string, sender: string, contents: string[], count: number, messages: Messages = MESSAGES_EN): Promise<string | null> {
+    if (isLimitExempt(env, sender)) return null;
+    const limits = getLimits(env);
+    if (limits.maxContentLength > 0 && contents.some((content) => content.length > limits.maxContentLength)) {
+        return messages.tooLong(limits.maxContentLength);
+    }
+    if (limits.maxOpenTodos > 0 && count > 0) {
+        const row: any = await env.nostr_todo.prepare(
+            'SELECT COUNT(*) AS count FROM todos WHERE pubkey = ? AND completed = 0 AND deleted_at IS NULL'
+        ).bind(pubkey).first();
+        if (row.count + count > limits.maxOpenTodos) {
+            return messages.tooManyOpen(limits.maxOpenTodos);
+        }
+    }
+    return null;
+}
+
+// Commands counted per verb in the metrics table. Anything else is counted as "other".
+const METRIC_VERBS = ['add', 'todo', 'list', 'show', 'update', 'done', 'undone', 'reopen', 'delete', 'clear', 'renumber',
+    'search', 'history', 'undo', 'import', 'stats', 'set', 'settings', 'setting', 'assign', 'team', 'forget', 'relay', 'web', 'help'];
+
+// Where a command came from: a mention, a "todoさん" call or a direct message
+type MetricSource = 'mention' | 'call' | 'dm';
+
+// Metrics are kept this long for the admin dashboard
+const METRICS_RETENTION_SECONDS = 90 * 24 * 60 * 60;
+
+function commandVerb(content: string): string {
+    const verb = normalizeCommand(cleanContent(content)).split(/\s/, 1)[0].toLowerCase();
+    return METRIC_VERBS.includes(verb) ? verb : 'other';
+}
+
+async function recordMetric(env: Env, source: MetricSource, pubkey: string, verb: string, error: boolean): Promise<void> {
+    try {
+        await env.nostr_todo.prepare(
+            'INSERT INTO metrics (source, pubkey, verb, error, created_at) VALUES (?, ?, ?, ?, ?)'
+        ).bind(source, pubkey, verb, error ? 1 : 0, Math.floor(Date.now() / 1000)).run();
+    } catch (e) {
+        // Metrics must never break a command
+        console.error('Failed to record metric:', e);
+    }
+}
+
+// Run a command and count it, as an error when it throws
+async function withMetric<T>(env: Env, source: MetricSource, event: Event, run: () => Promise<T>): Promise<T> {
+    let error = true;
+    try {
+        const result = await run();
+        error = false;
+        return result;
+    } finally {
+        await recordMetric(env, source, event.pubkey, commandVerb(event.content), error);
+    }
+}
+
+async function purgeMetrics(env: Env): Promise<void> {
+    await env.nostr_todo.prepare(
+        'DELETE FROM metrics WHERE created_at < ?'
+    ).bind(Math.floor(Date.now() / 1000) - METRICS_RETENTION_SECONDS).run();
+}
+
+// The bot ignores banned pubkeys, and their lists are hidden from the site
+async function isBanned(env: Env, pubkey: string): Promise<boolean> {
+    return await env.nostr_todo.prepare(
+        'SELECT 1 FROM banned_users WHERE pubkey = ?'
+    ).bind(pubkey).first() !== null;
+}
+
+async function handleMentionDirect(mention: Event, env: Env, source: MetricSource = 'mention'): Promise<Response> {
+    // Verify event signature
+    if (!verifyEvent(mention)) {
+        return JSONResponse(
+            createReplyWithTags(env.TODO_NSEC, mention, 'Invalid event signature', []),
+        );
+    }
+
+    const reply = await withMetric(env, source, mention, () => handleCommand(mention, env));
+    const event = createReplyWithTags(env.TODO_NSEC, mention, replyText(reply), typeof reply === 'string' ? [] : reply.tags ?? []);
+    if (typeof reply !== 'string') {
+        // Remember which todo the reply is about, so that reacting to it can complete the todo
+        await env.nostr_todo.prepare(
+            'INSERT OR REPLACE INTO reply_events (event_id, pubkey, todo_id, created_at) VALUES (?, ?, ?, ?)'
+        ).bind(event.id, mention.pubkey, reply.todoId, event.created_at).run();
+    }
+    return JSONResponse(event);
+}
+
+// A command reply is its text, plus the todo it is about when reactions to it should act on that todo,
+// and extra tags such as a p tag notifying an assignee
+type CommandReply = string | { message: string; todoId: number; tags?: string[][] };
+
+function replyText(reply: CommandReply): string {
+    return typeof reply === 'string' ? reply : reply.message;
+}
+
+// Run a command and return the reply. The caller must have authenticated mention.pubkey.
+// With channel set the command works on the channel's shared list instead of the user's own.
+async function handleCommand(mention: Event, env: Env, channel: string | null = null): Promise<CommandReply> {
+    const pubkey = channel ? channelListKey(channel) : mention.pubkey;
+    const content = normalizeCommand(cleanContent(mention.content));
+    // Settings are always the sender's own, also on a shared list
+    const settings = await getUserSettings(env, mention.pubkey);
+    const timeZone = settings.timezone;
+    const language = replyLanguage(settings, mention);
+    const messages = MESSAGES[language];
+
+    // A team command runs again on the channel's list and is counted once
+    if (!channel && !await consumeRateLimit(env, mention.pubkey)) {
+        return messages.rateLimited(getLimits(env).commandsPerMinute);
+    }
+
+    const teamMatch = content.match(/^team(?:\s+(.+))?$/is);
+    if (teamMatch && !channel) {
+        const channelId = getChannelId(mention);
+        if (!channelId || !await registerChannel(env, channelId)) {
+            return messages.notInChannel;
+        }
+        // Drop the "team" word from the raw content, where assign looks for mentioned users
+        const rest = mention.content.replace(/(^|\s)(?:team|チーム)(?:\s+|$)/i, '$1');
+        return handleCommand({ ...mention, content: teamMatch[1] ? rest : 'list' }, env, channelId);
+    }
+
+    const listMatch = content.match(/^list(?:\s+(.+))?$/is);
+    if (listMatch) {
+        const filter = parseTodoAttributes(listMatch[1] || '');
+        if (filter.rest) {
+            return messages.usage.list;
+        }
+        const where = buildTodoFilter(filter);
+        const { results } = await env.nostr_todo.prepare(
+            `SELECT ${TODO_COLUMNS} FROM todos WHERE pubkey = ? AND parent_id IS NULL AND completed = 0 AND deleted_at IS NULL${where.sql} ORDER BY ${TODO_ORDERS[settings.sort]}`
+        ).bind(pubkey, ...where.params).all();
+
+        let message = '';
+        if (results.length === 0) {
+            message = messages.noTodos;
+        } else {
+            message = results.map((row) => formatTodoLine(row, settings)).join('\n');
+        }
+
+        return message;
+    }
+
+    // A bare "todo" in a reply captures the replied-to note
+    const ref = getReferencedEvent(mention);
+    const addMatch = content.match(/^add(?:\s+(.+))?$/is) ?? (ref && /^todo$/i.test(content) ? [content] : null);
+    if (addMatch) {
+        let text = ref ? removeNostrRef(addMatch[1] || '', ref.id) : addMatch[1] || '';
+
+        // "add 3 / テスト書く" adds a subtask to todo 3. Subtasks are one level deep, so the
+        // parent cannot be a subtask itself.
+        let parent = null;
+        const subtaskMatch = text.match(/^(\d+)\s+\/\s*(.+)$/s);
+        if (subtaskMatch) {
+            parent = await findTodo(env, pubkey, parseInt(subtaskMatch[1]));
+            if (!parent || parent.parent_id != null) {
+                return messages.notFound(subtaskMatch[1]);
+            }
+            text = subtaskMatch[2];
+        }
+        const checklist = parent ? { rest: text, items: [] } : parseChecklist(text);
+
+        const attrs = parseTodoAttributes(checklist.rest);
+        const repeat = parseRepeatRule(attrs.rest);
+        const due = parseDueDate(repeat ? repeat.rest : attrs.rest, undefined, timeZone);
+        let todoContent = due ? due.rest : repeat ? repeat.rest : attrs.rest;
+        // A recurring todo always has a due date: the first occurrence of the rule
+        const dueAt = repeat ? firstOccurrence(repeat.rule, due ? due.dueAt : null, undefined, timeZone) : due ? due.dueAt : null;
+        let note = ref ? await fetchReferencedNote(env, ref) : null;
+        // Replying to the bot's own notes is conversation, not a note to capture
+        if (note && note.pubkey === getPublicKey(getSecretKey(env.TODO_NSEC))) {
+            note = null;
+        }
+        if (!todoContent && note?.content) {
+            todoContent = previewText(cleanContent(note.content), 100);
+        }
+        if (!todoContent) {
+            return messages.usage.add;
+        }
+        const overQuota = await checkQuota(env, pubkey, mention.pubkey,
+            [todoContent, ...checklist.items.map((item) => item.content)],
+            1 + checklist.items.filter((item) => !item.done).length, messages);
+        if (overQuota) {
+            return overQuota;
+        }
+
+        const todo = await insertTodo(env, pubkey, {
+            content: todoContent,
+            due_at: dueAt,
+            priority: attrs.priority,
+            tags: attrs.tags,
+            repeat_rule: repeat ? JSON.stringify(repeat.rule) : null,
+            parent_id: parent ? parent.id : null,
+            created_by: mention.pubkey,
+        }, mention.id, note);
+        for (const item of checklist.items) {
+            const subtask = await insertTodo(env, pubkey, {
+                content: item.content,
+                due_at: null,
+                priority: null,
+                tags: [],
+                parent_id: todo.id,
+                created_by: mention.pubkey,
+            }, mention.id);
+            if (item.done) {
+                await applyTodoAction(env, 'done', [subtask], mention.id);
+            }
+        }
+        const userId = todoLabel(todo);
+
+        const details = [];
+        if (dueAt != null) details.push(messages.due(formatDueDate(dueAt, timeZone)));
+        if (repeat) details.push(describeRepeatRule(repeat.rule, language));
+        if (checklist.items.length > 0) details.push(messages.subtasks(checklist.items.length));
+        const message = details.length > 0
+            ? `${messages.added(userId)} (${details.join(', ')})`
+            : messages.added(userId);
+
+        return { message, todoId: todo.id };
+    }
+
+    const batchMatch = content.match(/^(done|delete|undone|reopen)\s+([\d.,\-\s]+)$/i);
+    if (batchMatch) {
+        const verb = batchMatch[1].toLowerCase();
+        const action = verb === 'undone' ? 'reopen' : verb;
+        const keys = parseIdList(batchMatch[2]);
+        if (!keys) {
+            return messages.usage.batch(verb);
+        }
+
+        const rows = await findTodos(env, pubkey, keys);
+        if (action === 'reopen') {
+            const overQuota = await checkQuota(env, pubkey, mention.pubkey, [], rows.filter(TODO_ACTIONS.reopen.applies).length, messages);
+            if (overQuota) return overQuota;
+        }
+        const applied = await applyTodoAction(env, action, rows, mention.id);
+        const labels = keys.map(formatTodoKey);
+        const appliedIds = labels.filter((label) => applied.some((row) => todoLabel(row) === label));
+        const notFoundIds = labels.filter((label) => !appliedIds.includes(label));
+
+        const lines = [];
+        if (appliedIds.length > 0) lines.push(`${messages.actions[action]}: ${appliedIds.join(', ')}`);
+        if (notFoundIds.length > 0) lines.push(messages.notFound(notFoundIds.join(', ')));
+        if (action === 'done' && applied.some((row) => row.repeat_rule)) {
+            const { results: next } = await env.nostr_todo.prepare(
+                `SELECT ${TODO_COLUMNS} FROM todos WHERE pubkey = ? AND deleted_at IS NULL
+                 AND previous_id IN (${applied.map(() => '?').join(', ')}) ORDER BY user_id ASC`
+            ).bind(pubkey, ...applied.map((row) => row.id)).all();
+            for (const row of next as any[]) {
+                lines.push(`${messages.next(todoLabel(row))} (${messages.due(formatDueDate(row.due_at, timeZone))})`);
+            }
+        }
+
+        return lines.join('\n');
+    }
+
+    if (/^clear\s+done$/i.test(content)) {
+        const { results } = await env.nostr_todo.prepare(
+            `SELECT ${TODO_COLUMNS} FROM todos WHERE pubkey = ? AND parent_id IS NULL AND completed = 1 AND deleted_at IS NULL AND archived_at IS NULL`
+        ).bind(pubkey).all();
+        const applied = await applyTodoAction(env, 'archive', results, mention.id);
+
+        return messages.archived(applied.length);
+    }
+
+    if (/^renumber$/i.test(content)) {
+        const count = await renumberTodos(env, pubkey);
+
+        return messages.renumbered(count);
+    }
+
+    const searchMatch = content.match(/^search\s+(.+)$/is);
+    if (searchMatch) {
+        const query = parseSearchQuery(searchMatch[1], timeZone);
+        if (typeof query === 'string') {
+            return `${messages.usage.search}\n${query}`;
+        }
+        const search = buildSearchSql(pubkey, query);
+        const { results } = await env.nostr_todo.prepare(search.sql).bind(...search.params).all();
+
+        let message = '';
+        if (results.length === 0) {
+            message = messages.noResults;
+        } else {
+            message = results.map((row) => formatSearchLine(row, query.terms, timeZone)).join('\n');
+        }
+
+        return message;
+    }
+
+    const showMatch = content.match(/^show\s+(\d+(?:\.\d+)?)$/i);
+    if (showMatch) {
+        const userId = showMatch[1];
+        const row = await findTodoByKey(env, pubkey, parseTodoKey(userId)!);
+
+        let message = '';
+        if (!row) {
+            message = messages.notFound(userId);
+        } else {
+            message = `${todoLabel(row)}. ${row.content}${formatProgress(row)}`;
+            await attachSubtasks(env, pubkey, [row]);
+            for (const subtask of row.subtasks ?? []) {
+                message += `\n  ${subtask.completed ? '☑' : '☐'} ${todoLabel(subtask)}. ${subtask.content}`;
+            }
+            const details = [];
+            if (row.due_at != null) {
+                details.push(`${messages.show.due}: ${formatDueDate(row.due_at, timeZone)}${isOverdue(row) ? ` (${messages.show.overdue})` : ''}`);
+            }
+            const rule = getRepeatRule(row);
+            if (rule) {
+                details.push(`${messages.show.repeat}: ${describeRepeatRule(rule, language)}`);
+            }
+            if (row.priority) {
+                details.push(`${messages.show.priority}: ${PRIORITY_NAMES[row.priority]}`);
+            }
+            if (row.tags) {
+                details.push(`${messages.show.tags}: ${getTags(row).map((tag) => `#${tag}`).join(' ')}`);
+            }
+            if (row.assignee) {
+                details.push(`${messages.show.assignee}: nostr:${nip19.npubEncode(row.assignee)}`);
+            }
+            if (row.ref_event_id) {
+                details.push(`${messages.show.note}: nostr:${encodeRef(row)}`);
+            }
+            if (details.length > 0) {
+                message += `\n\n${details.join('\n')}`;
+            }
+        }
+
+        return message;
+    }
+
+    const updateDueMatch = content.match(/^update\s+(\d+(?:\.\d+)?)\s+due\s+(.+)$/is);
+    if (updateDueMatch) {
+        const userId = updateDueMatch[1];
+        const clear = /^(none|なし)$/i.test(updateDueMatch[2].trim());
+        const due = clear ? null : parseDueDate(updateDueMatch[2], undefined, timeZone);
+        if (!clear && (!due || due.rest)) {
+            return messages.usage.updateDue;
+        }
+
+        const before = await findTodoByKey(env, pubkey, parseTodoKey(userId)!);
+        if (before) {
+            await updateTodo(env, before, { due_at: due ? due.dueAt : null }, mention.id);
+        }
+
+        const message = before
+            ? `${messages.updated(userId)}${due ? ` (${messages.due(formatDueDate(due.dueAt, timeZone))})` : ''}`
+            : messages.notFound(userId);
+
+        return message;
+    }
+
+    const updateRepeatMatch = content.match(/^update\s+(\d+(?:\.\d+)?)\s+repeat\s+(.+)$/is);
+    if (updateRepeatMatch) {
+        const userId = updateRepeatMatch[1];
+        const clear = /^(none|なし)$/i.test(updateRepeatMatch[2].trim());
+        const repeat = clear ? null : parseRepeatRule(updateRepeatMatch[2]);
+        if (!clear && (!repeat || repeat.rest)) {
+            return messages.usage.updateRepeat;
+        }
+
+        const before = await findTodoByKey(env, pubkey, parseTodoKey(userId)!);
+        if (!before) {
+            return messages.notFound(userId);
+        }
+
+        const changes: TodoChanges = { repeat_rule: repeat ? JSON.stringify(repeat.rule) : null };
+        if (repeat) changes.due_at = firstOccurrence(repeat.rule, before.due_at, undefined, timeZone);
+        await updateTodo(env, before, changes, mention.id);
+
+        return repeat
+            ? `${messages.updated(userId)} (${describeRepeatRule(repeat.rule, language)}, ${messages.due(formatDueDate(changes.due_at!, timeZone))})`
+            : messages.updated(userId);
+    }
+
+    const updateMatch = content.match(/^update\s+(\d+(?:\.\d+)?)\s+(.+)$/is);
+    if (updateMatch) {
+        const userId = updateMatch[1];
+        const attrs = parseTodoAttributes(updateMatch[2]);
+        const due = parseDueDate(attrs.rest, undefined, timeZone);
+        const newContent = due ? due.rest : attrs.rest;
+
+        // Only the parts given in the command are changed
+        const changes: TodoChanges = {};
+        if (newContent) changes.content = newContent;
+        if (due) changes.due_at = due.dueAt;
+        if (attrs.priority !== null) changes.priority = attrs.priority;
+        if (attrs.tags.length > 0) changes.tags = attrs.tags;
+        if (Object.keys(changes).length === 0) {
+            return messages.usage.update;
+        }
+        const overQuota = await checkQuota(env, pubkey, mention.pubkey, newContent ? [newContent] : [], 0, messages);
+        if (overQuota) {
+            return overQuota;
+        }
+
+        const before = await findTodoByKey(env, pubkey, parseTodoKey(userId)!);
+        if (before) {
+            await updateTodo(env, before, changes, mention.id);
+        }
+
+        const message = before
+            ? messages.updated(userId)
+            : messages.notFound(userId);
+
+        return message;
+    }
+
+    const assignMatch = content.match(/^assign\s+(\d+(?:\.\d+)?)(?:\s+(\S+))?$/i);
+    if (assignMatch) {
+        const userId = assignMatch[1];
+        const clear = /^(none|なし)$/i.test(assignMatch[2] || '');
+        const assignee = clear ? null : getAssignee(assignMatch[2], mention, getPublicKey(getSecretKey(env.TODO_NSEC)));
+        if (!clear && !assignee) {
+            return messages.usage.assign;
+        }
+
+        const before = await findTodoByKey(env, pubkey, parseTodoKey(userId)!);
+        if (!before) {
+            return messages.notFound(userId);
+        }
+        await updateTodo(env, before, { assignee }, mention.id);
+        if (!assignee) {
+            return messages.unassigned(userId);
+        }
+        // The p tag notifies the assignee
+        return { message: messages.assigned(userId, nip19.npubEncode(assignee)), todoId: before.id, tags: [['p', assignee]] };
+    }
+
+    const historyMatch = content.match(/^history\s+(\d+(?:\.\d+)?)$/i);
+    if (historyMatch) {
+        const userId = historyMatch[1];
+        const key = parseTodoKey(userId)!;
+        // Deleted todos keep their history, so this does not go through findTodoByKey
+        const todoId = key.position === null
+            ? '(SELECT id FROM todos WHERE user_id = ? AND pubkey = ?)'
+            : `(SELECT id FROM todos WHERE position = ? AND parent_id =
+                (SELECT id FROM todos WHERE user_id = ? AND pubkey = ? AND parent_id IS NULL AND deleted_at IS NULL))`;
+        const { results } = await env.nostr_todo.prepare(
+            `SELECT action, before, after, created_at, undone FROM todo_history
+             WHERE todo_id = ${todoId} ORDER BY id ASC`
+        ).bind(...(key.position === null ? [] : [key.position]), key.userId, pubkey).all();
+
+        const message = results.length === 0
+            ? messages.notFound(userId)
+            : `${messages.historyOf(userId)}\n${results.map((row) => describeHistory(row, timeZone)).join('\n')}`;
+
+        return message;
+    }
+
+    if (/^undo$/i.test(content)) {
+        const last: any = await env.nostr_todo.prepare(
+            `SELECT id, event_id FROM todo_history
+             WHERE pubkey = ? AND action != 'undo' AND undone = 0 ORDER BY id DESC LIMIT 1`
+        ).bind(pubkey).first();
+        if (!last) {
+            return messages.nothingToUndo;
+        }
+
+        // A batch command records one row per todo with the same event id; undo all of them
+        const { results: entries } = await env.nostr_todo.prepare(
+            `SELECT id, todo_id, action, before FROM todo_history
+             WHERE pubkey = ? AND action != 'undo' AND undone = 0 AND (id = ? OR event_id = ?) ORDER BY id DESC`
+        ).bind(pubkey, last.id, last.event_id).all();
+
+        const currents: any[] = [];
+        for (const entry of entries as any[]) {
+            currents.push(await env.nostr_todo.prepare(
+                `SELECT ${TODO_COLUMNS} FROM todos WHERE id = ?`
+            ).bind(entry.todo_id).first());
+        }
+        // Undoing a delete or a completion puts todos back on the open list
+        const snapshots: (TodoSnapshot | null)[] = entries.map((entry: any) => entry.before ? JSON.parse(entry.before) : null);
+        const reopened = snapshots.filter((snapshot, i) => snapshot && isOpenTodo(snapshot) && !(currents[i] && isOpenTodo(currents[i]))).length;
+        const overQuota = await checkQuota(env, pubkey, mention.pubkey, [], reopened, messages);
+        if (overQuota) return overQuota;
+
+        const undoneIds = [];
+        for (const [i, entry] of (entries as any[]).entries()) {
+            const current = currents[i];
+            await restoreSnapshot(env, entry.todo_id, snapshots[i]);
+            await env.nostr_todo.prepare(
+                'UPDATE todo_history SET undone = 1 WHERE id = ?'
+            ).bind(entry.id).run();
+            const restored: any = await env.nostr_todo.prepare(
+                `SELECT ${TODO_COLUMNS} FROM todos WHERE id = ?`
+            ).bind(entry.todo_id).first();
+            await recordHistory(env, 'undo', current, restored, mention.id);
+            undoneIds.push(todoLabel(restored));
+        }
+
+        const action = (entries[0] as any).action;
+        return messages.undone(action, undoneIds.reverse().join(', '));
+    }
+
+    const importMatch = content.match(/^import\s+(.+)$/is);
+    if (importMatch) {
+        let text = importMatch[1].trim();
+        if (/^https?:\/\/\S+$/.test(text)) {
+            try {
+                text = await fetchImportText(text);
+            } catch (e: any) {
+                return e.message;
+            }
+        }
+        const items = parseImport(text, timeZone);
+        const count = items.reduce((n, item) => n + 1 + item.subtasks.length, 0);
+        if (count === 0) {
+            return messages.usage.import;
+        }
+        if (count > MAX_IMPORT_ITEMS) {
+            return messages.tooManyToImport(count, MAX_IMPORT_ITEMS);
+        }
+        const all = items.flatMap((item) => [item, ...item.subtasks]);
+        const overQuota = await checkQuota(env, pubkey, mention.pubkey,
+            all.map((item) => item.content), all.filter((item) => !item.completed).length, messages);
+        if (overQuota) {
+            return overQuota;
+        }
+
+        const result = await importTodos(env, pubkey, items, mention.id, mention.pubkey);
+        return messages.imported(result.imported, result.skipped);
+    }
+
+    if (/^stats$/i.test(content)) {
+        return formatStats(await getTodoStats(env, pubkey, undefined, timeZone), messages);
+    }
+
+    if (/^settings?$/i.test(content)) {
+        return formatSettings(settings, messages);
+    }
+
+    const setMatch = content.match(/^set\s+(\S+)\s+(\S+)$/i);
+    if (setMatch) {
+        const setting = parseSetting(setMatch[1], setMatch[2], messages);
+        if (typeof setting === 'string') {
+            return `${setting}\n${messages.usage.set}`;
+        }
+        // Settings are the sender's own, so "team set" changes them too and never the channel's list
+        await updateUserSetting(env, mention.pubkey, setting.column, setting.value);
+        // Reply in the language just chosen
+        const updated = await getUserSettings(env, mention.pubkey);
+        return formatSettings(updated, MESSAGES[replyLanguage(updated, mention)]);
+    }
+
+    // Always about the sender, also after "team"
+    const forgetMatch = content.match(/^forget\s+me(?:\s+(\S+))?$/i);
+    if (forgetMatch) {
+        const now = Math.floor(Date.now() / 1000);
+        const period = Math.floor(now / FORGET_TOKEN_SECONDS);
+        const token = await forgetToken(env, mention.pubkey, period);
+        if (!forgetMatch[1]) {
+            return messages.forgetConfirm(token);
+        }
+        if (forgetMatch[1] !== token && forgetMatch[1] !== await forgetToken(env, mention.pubkey, period - 1)) {
+            return messages.forgetInvalidToken;
+        }
+        const count = await forgetUser(env, mention.pubkey);
+        return messages.forgotten(count);
+    }
+
+    const relayMatch = content.match(/^relay(?:\s+(\S+)(?:\s+(\S+))?)?$/i);
+    if (relayMatch) {
+        // The relays the bot uses are managed by its admins
+        if (!adminPubkeys(env).includes(mention.pubkey)) {
+            return messages.ownerOnly;
+        }
+        const action = relayMatch[1]?.toLowerCase();
+        const url = relayMatch[2];
+        const relays = await getRelays(env);
+        if (!action && !url) {
+            return messages.relays(relays.join('\n'));
+        }
+        if (action === 'reset' && !url) {
+            await setRelays(env, null);
+            return messages.relayReset((await getRelays(env)).join('\n'));
+        }
+        if ((action !== 'add' && action !== 'remove') || !url) {
+            return messages.usage.relay;
+        }
+        if (!isRelayUrl(url)) {
+            return messages.relayInvalid(url);
+        }
+        if (action === 'add') {
+            if (!relays.includes(url)) await setRelays(env, [...relays, url]);
+            return messages.relayAdded(url);
+        }
+        if (!relays.includes(url)) {
+            return messages.relayUnknown(url);
+        }
+        if (relays.length === 1) {
+            return messages.relayLastOne;
+        }
+        await setRelays(env, relays.filter((relay) => relay !== url));
+        return messages.relayRemoved(url);
+    }
+
+    if (/^web$/i.test(content)) {
+        if (channel) {
+            return `${config.siteUrl}/channel/${nip19.neventEncode({ id: channel })}`;
+        }
+        const npub = nip19.npubEncode(pubkey);
+        const url = `${config.siteUrl}/${npub}`;
+        return url;
+    }
+
+    return getHelpMessage(language);
+}
+
+async function handleDirectMessage(message: Event, env: Env): Promise<Response> {
+    if (!verifyEvent(message)) {
+        return new Response('Invalid event signature', { status: 400 });
+    }
+
+    let command: Event;
+    try {
+        command = decryptDirectMessage(env.TODO_NSEC, message);
+    } catch (e) {
+        console.error('Failed to decrypt direct message:', e);
+        return new Response('Cannot decrypt message', { status: 400 });
+    }
+    if (command.pubkey === getPublicKey(getSecretKey(env.TODO_NSEC))) {
+        return new Response('Self message not acceptable', { status: 400 });
+    }
+    // The sender of a gift wrap is only known once it is unwrapped
+    if (await isBanned(env, command.pubkey)) {
+        return JSONResponse(null);
+    }
+
+    const reply = await withMetric(env, 'dm', command, () => handleCommand(command, env));
+    return JSONResponse(createEncryptedReply(env.TODO_NSEC, message, command, replyText(reply)));
+}
+
+// A NIP-09 deletion of the mention that created todos removes those todos. Only the author of the
+// mention can do this, which also covers todos they added to a channel's shared list.
+async function handleDeletion(deletion: Event, env: Env): Promise<Response> {
+    if (!verifyEvent(deletion)) {
+        return new Response('Invalid event signature', { status: 400 });
+    }
+    const eventIds = [...new Set(deletion.tags.filter((tag) => tag[0] === 'e' && tag[1]).map((tag) => tag[1]))];
+    // Chunked to stay within D1's parameter limit. Most deletions are of notes that never made a todo,
+    // and the cron job sees each deletion more than once, so only purge when something matches.
+    for (let i = 0; i < eventIds.length; i += DELETION_CHUNK_SIZE) {
+        const chunk = eventIds.slice(i, i + DELETION_CHUNK_SIZE);
+        const condition = `event_id IN (${chunk.map(() => '?').join(', ')}) AND created_by = ?`;
+        const match = await env.nostr_todo.prepare(`SELECT 1 FROM todos WHERE ${condition} LIMIT 1`)
+            .bind(...chunk, deletion.pubkey).first();
+        if (match) {
+            await purgeTodos(env, condition, [...chunk, deletion.pubkey]);
+        }
+    }
+
+    // Deletions are acknowledged silently
+    return JSONResponse(null);
+}
+
+const DELETION_CHUNK_SIZE = 90;
+
+// Deletions do not mention the bot, so the cron job looks for them on the relays. Each run starts a
+// little before where the last successful one stopped, for deletions that reached the relays late.
+// Without a cursor it looks back DELETION_SYNC_SECONDS.
+const DELETION_SYNC_SECONDS = 60 * 60;
+const DELETION_SYNC_OVERLAP_SECONDS = 2 * 60;
+
+async function syncDeletions(env: Env): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    const cursor = await env.nostr_todo.prepare("SELECT since FROM sync_cursors WHERE name = 'deletions'").first<number>('since');
+    const since = cursor != null ? cursor - DELETION_SYNC_OVERLAP_SECONDS : now - DELETION_SYNC_SECONDS;
+    const { results } = await env.nostr_todo.prepare(
+        'SELECT DISTINCT created_by FROM todos WHERE event_id IS NOT NULL AND created_by IS NOT NULL'
+    ).all();
+    const authors = results.map((row: any) => row.created_by as string);
+    let synced = true;
+    for (let i = 0; i < authors.length; i += 100) {
+        try {
+            const deletions = await pool.querySync(await getRelays(env), { kinds: [5], authors: authors.slice(i, i + 100), since }, { maxWait: 5000 });
+            for (const deletion of deletions) {
+                await handleDeletion(deletion, env);
+            }
+        } catch (e) {
+            console.error('Failed to sync deletions:', e);
+            synced = false;
+        }
+    }
+    // A failed run is retried from the same cursor
+    if (synced) {
+        await env.nostr_todo.prepare(
+            "INSERT INTO sync_cursors (name, since) VALUES ('deletions', ?) ON CONFLICT(name) DO UPDATE SET since = excluded.since"
+        ).bind(now).run();
+    }
+}
+
+// "forget me" asks for the token first. It is derived from the bot's key, so nothing has to be
+// stored, and stays valid until the end of the next period.
+const FORGET_TOKEN_SECONDS = 10 * 60;
+
+async function forgetToken(env: Env, pubkey: string, period: number): Promise<string> {
+    return (await hmacHex(env, `forget:${pubkey}:${period}`)).substring(0, 8);
+}
+
+// Remove everything kept about a user: their list, todos they added to shared lists, assignments,
+// settings, reply mappings, stored replies and the cached profile. Returns the number of todos removed.
+async function forgetUser(env: Env, pubkey: string): Promise<number> {
+    const count = await purgeTodos(env, 'pubkey = ? OR created_by = ?', [pubkey, pubkey]);
+    await env.nostr_todo.batch([
+        env.nostr_todo.prepare('UPDATE todos SET assignee = NULL WHERE assignee = ?').bind(pubkey),
+        env.nostr_todo.prepare('DELETE FROM todo_history WHERE pubkey = ?').bind(pubkey),
+        env.nostr_todo.prepare('DELETE FROM reply_events WHERE pubkey = ?').bind(pubkey),
+        // Replies quote todos. The rows stay, answering a re-delivered event with no reply, so that
+        // relays cannot run the user's old commands again.
+        env.nostr_todo.prepare("UPDATE processed_events SET response = 'null' WHERE pubkey = ? AND response IS NOT NULL").bind(pubkey),
+        env.nostr_todo.prepare('DELETE FROM user_settings WHERE pubkey = ?').bind(pubkey),
+        env.nostr_todo.prepare('DELETE FROM sessions WHERE pubkey = ?').bind(pubkey),
+        env.nostr_todo.prepare('DELETE FROM metrics WHERE pubkey = ?').bind(pubkey),
+        env.nostr_todo.prepare('DELETE FROM profiles WHERE pubkey = ?').bind(pubkey),
+    ]);
+    return count;
+}
+
+// Reactions to a bot reply that act on the todo the reply is about (NIP-25)
+const REACTION_ACTIONS: Record<string, string> = {
+    '✅': 'done',
+    '✔️': 'done',
+    '+': 'done',
+    '❌': 'delete',
+};
+
+async function handleReaction(reaction: Event, env: Env): Promise<Response> {
+    if (!verifyEvent(reaction)) {
+        return new Response('Invalid event signature', { status: 400 });
+    }
+    const emoji = reaction.content.trim();
+    const action = Object.hasOwn(REACTION_ACTIONS, emoji) ? REACTION_ACTIONS[emoji] : undefined;
+    // The last e tag is the reacted event
+    const target = reaction.tags.filter((tag) => tag[0] === 'e').pop()?.[1];
+    if (!action || !target) return JSONResponse(null);
+    if (!await consumeRateLimit(env, reaction.pubkey)) return JSONResponse(null);
+
+    // Only the owner of the todo can act on it
+    const todo = await env.nostr_todo.prepare(
+        `SELECT ${TODO_COLUMNS} FROM todos
+         WHERE id = (SELECT todo_id FROM reply_events WHERE event_id = ? AND pubkey = ?) AND deleted_at IS NULL`
+    ).bind(target, reaction.pubkey).first();
+    if (todo) {
+        await applyTodoAction(env, action, [todo], reaction.id);
+    }
+
+    // Reactions are acknowledged silently
+    return JSONResponse(null);
+}
+
+// Events older than this are not acted on
+const MAX_EVENT_AGE_SECONDS = 10 * 60;
+// NIP-59 gift wraps carry a created_at randomized up to two days into the past
+const MAX_GIFT_WRAP_AGE_SECONDS = 2 * 24 * 60 * 60 + MAX_EVENT_AGE_SECONDS;
+// Events with created_at this far in the future are rejected
+const MAX_EVENT_SKEW_SECONDS = 60;
+// processed_events rows are kept long enough to cover every accepted event age,
+// including what the relay listener backfills
+const PROCESSED_EVENT_RETENTION_SECONDS = Math.max(MAX_GIFT_WRAP_AGE_SECONDS, MAX_BACKFILL_SECONDS) + 60 * 60;
+
+function isFreshEvent(event: Event, maxAge: number = MAX_EVENT_AGE_SECONDS, now: number = Math.floor(Date.now() / 1000)): boolean {
+    if (event.kind === 1059) maxAge = Math.max(maxAge, MAX_GIFT_WRAP_AGE_SECONDS);
+    return typeof event.created_at === 'number'
+        && event.created_at >= now - maxAge
+        && event.created_at <= now + MAX_EVENT_SKEW_SECONDS;
+}
+
+// Run handler at most once per event id. A re-delivered event gets the stored response
+// instead of running the command again.
+async function handleEventOnce(event: Event, env: Env, handler: () => Promise<Response>, maxAge: number = MAX_EVENT_AGE_SECONDS): Promise<Response> {
+    if (!isFreshEvent(event, maxAge)) {
+        return new Response('Event too old', { status: 400 });
+    }
+    if (!verifyEvent(event)) {
+        return new Response('Invalid event signature', { status: 400 });
+    }
+
+    const claimed = await env.nostr_todo.prepare(
+        'INSERT OR IGNORE INTO processed_events (event_id, pubkey, created_at) VALUES (?, ?, ?)'
+    ).bind(event.id, event.pubkey, Math.floor(Date.now() / 1000)).run();
+    if (claimed.meta.changes === 0) {
+        const processed: any = await env.nostr_todo.prepare(
+            'SELECT status, response FROM processed_events WHERE event_id = ?'
+        ).bind(event.id).first();
+        if (!processed || processed.response === null) {
+            return new Response('Event is being processed', { status: 409 });
+        }
+        return new Response(processed.response, {
+            status: processed.status,
+            headers: {
+                "access-control-allow-origin": "*",
+                "content-type": "application/json; charset=UTF-8",
+            },
+        });
+    }
+
+    let response: Response;
+    try {
+        response = await handler();
+    } catch (e) {
+        // Release the claim so that a retry can run the command
+        await env.nostr_todo.prepare('DELETE FROM processed_events WHERE event_id = ?').bind(event.id).run();
+        throw e;
+    }
+    await env.nostr_todo.prepare(
+        'UPDATE processed_events SET status = ?, response = ? WHERE event_id = ?'
+    ).bind(response.status, await response.clone().text(), event.id).run();
+    return response;
+}
+
+async function purgeProcessedEvents(env: Env): Promise<void> {
+    await env.nostr_todo.prepare(
+        'DELETE FROM processed_events WHERE created_at < ?'
+    ).bind(Math.floor(Date.now() / 1000) - PROCESSED_EVENT_RETENTION_SECONDS).run();
+}
+
+async function dispatchMention(mention: Event, env: Env): Promise<Response> {
+    // Banned users are ignored without a reply
+    if (mention.kind !== 1059 && await isBanned(env, mention.pubkey)) {
+        return JSONResponse(null);
+    }
+    if (mention.kind === 4 || mention.kind === 1059) {
+        return handleDirectMessage(mention, env);
+    }
+    if (mention.kind === 7) {
+        return handleReaction(mention, env);
+    }
+    if (mention.kind === 5) {
+        return handleDeletion(mention, env);
+    }
+    return handleMentionDirect(mention, env);
+}
+
+async function handleMention(request: Request, env: Env): Promise<Response> {
+    const mention: Event = await request.json();
+    return handleEventOnce(mention, env, () => dispatchMention(mention, env));
+}
+
+async function handleCall(request: Request, env: Env): Promise<Response> {
+    const mention: Event = await request.json();
+    return handleEventOnce(mention, env, () => handleCallDirect(mention, env));
+}
+
+async function handleCallDirect(mention: Event, env: Env): Promise<Response> {
+    // Verify event signature
+    if (!verifyEvent(mention)) {
+        return JSONResponse(
+            createReplyWithTags(env.TODO_NSEC, mention, 'Invalid event signature', []),
+        );
+    }
+
+    if (await isBanned(env, mention.pubkey)) {
+        return JSONResponse(null);
+    }
+
+    const content = cleanContent(mention.content);
+
+    // "todoさん" の後にコマンドがあれば handleMention へ
+    if (callPattern('\\s+.+').test(content)) {
+        // contentから "todoさん" を削除してhandleMentionへ
+        const modifiedContent = content.replace(callPattern('\\s+'), '');
+        const modifiedMention = { ...mention, content: modifiedContent };
+        // handleMentionを直接呼び出し（Requestオブジェクトは不要）
+        return handleMentionDirect(modifiedMention, env, 'call');
+    }
+
+    // "todoさん" alone in a reply captures the replied-to note
+    if (getReferencedEvent(mention)) {
+        return handleMentionDirect({ ...mention, content: 'todo' }, env, 'call');
+    }
+
+    await recordMetric(env, 'call', mention.pubkey, 'help', false);
+    const language = replyLanguage(await getUserSettings(env, mention.pubkey), mention);
+    if (!await consumeRateLimit(env, mention.pubkey)) {
+        return JSONResponse(
+            createReplyWithTags(env.TODO_NSEC, mention, MESSAGES[language].rateLimited(getLimits(env).commandsPerMinute), []),
+        );
+    }
+    return JSONResponse(
+        createReplyWithTags(env.TODO_NSEC, mention, `${MESSAGES[language].yes}\n\n${getHelpMessage(language)}`, []),
+    );
+}
+
+// Profiles (kind 0) of users, kept in D1. A stored profile older than PROFILE_FRESH_SECONDS is
+// still shown, and refreshed in the background for the next request.
+type Profile = {
+    name: string;
+    picture: string;
+    about: string;
+    banner: string;
+    lud16: string;
+    nip05: string;
+    nip05_verified: boolean;
+};
+
+const PROFILE_FRESH_SECONDS = 60 * 60;
+// Profile lookups wait this long for relays, the fallback API and each NIP-05 domain
+const PROFILE_FETCH_TIMEOUT_MS = 3000;
+
+// NIP-05 addresses point at any domain, so a slow one is given up on like a failed one
+nip05.useFetchImplementation((input: RequestInfo, init?: RequestInit) =>
+    fetch(input, { ...init, signal: AbortSignal.timeout(PROFILE_FETCH_TIMEOUT_MS) }));
+
+const PROFILE_FIELDS = ['name', 'picture', 'about', 'banner', 'lud16', 'nip05'] as const;
+
+function toProfile(metadata: any): Profile {
+    const text = (value: any) => typeof value === 'string' ? value : '';
+    return {
+        name: text(metadata.name) || text(metadata.display_name),
+        picture: text(metadata.picture),
+        about: text(metadata.about),
+        banner: text(metadata.banner),
+        lud16: text(metadata.lud16),
+        nip05: text(metadata.nip05),
+        nip05_verified: false,
+    };
+}
+
+// A stored profile, named after the npub when it has no name
+function rowToProfile(row: any): Profile {
+    return {
+        name: row.name || shortNpub(row.pubkey),
+        picture: row.picture || '',
+        about: row.about || '',
+        banner: row.banner || '',
+        lud16: row.lud16 || '',
+        nip05: row.nip05 || '',
+        nip05_verified: row.nip05_verified === 1,
+    };
+}
+
+// Fetch the latest kind 0 of every pubkey with one relay query, and fall back to the HTTP API for the
+// ones relays did not return. NIP-05 addresses are left unverified.
+async function fetchProfiles(env: Env, pubkeys: string[]): Promise<Map<string, Profile>> {
+    const profiles = new Map<string, Profile>();
+    const created = new Map<string, number>();
+    try {
+        const events = await pool.querySync(await getRelays(env), { kinds: [0], authors: pubkeys }, { maxWait: PROFILE_FETCH_TIMEOUT_MS });
+        for (const event of events) {
+            if ((created.get(event.pubkey) ?? -1) >= event.created_at) continue;
+            try {
+                profiles.set(event.pubkey, toProfile(JSON.parse(event.content)));
+                created.set(event.pubkey, event.created_at);
+            } catch (e) {
+                // Ignore metadata that is not JSON
+            }
+        }
+    } catch (e) {
+        console.error('Failed to fetch profiles from relays:', e);
+    }
+
+    const fallbackUrl = config.profileFallbackUrl;
+    await Promise.all(pubkeys.filter((pubkey) => fallbackUrl && !profiles.has(pubkey)).map(async (pubkey) => {
+        try {
+            const response = await fetch(`${fallbackUrl}/${nip19.npubEncode(pubkey)}`, {
+                signal: AbortSignal.timeout(PROFILE_FETCH_TIMEOUT_MS),
+            });
+            if (response.ok) {
+                profiles.set(pubkey, toProfile(await response.json()));
+            }
+        } catch (e) {
+            console.error('Failed to fetch profile from fallback API:', e);
+        }
+    }));
+    return profiles;
+}
+
+// Check the NIP-05 addresses of fetched profiles and store the result, for a stored profile that
+// still has the same address
+async function verifyNip05(env: Env, profiles: Map<string, Profile>): Promise<void> {
+    await Promise.all([...profiles].map(async ([pubkey, profile]) => {
+        if (!nip05.isNip05(profile.nip05)) return;
+        try {
+            const verified = await nip05.isValid(pubkey, profile.nip05);
+            await env.nostr_todo.prepare(
+                'UPDATE profiles SET nip05_verified = ? WHERE pubkey = ? AND nip05 = ?'
+            ).bind(verified ? 1 : 0, pubkey, profile.nip05).run();
+        } catch (e) {
+            console.error('Failed to verify NIP-05:', e);
+        }
+    }));
+}
+
+// Fetch and store profiles. Pubkeys without a profile are stored empty, so that they are not
+// looked up again on every request. A NIP-05 address keeps its stored verification until it is
+// checked again after the response; a new address starts out unverified.
+async function refreshProfiles(env: Env, pubkeys: string[], ctx: ExecutionContext): Promise<Map<string, Profile>> {
+    const fetched = await fetchProfiles(env, pubkeys);
+    const now = Math.floor(Date.now() / 1000);
+    const profiles = new Map<string, Profile>();
+    const results = await env.nostr_todo.batch<{ nip05_verified: number }>(pubkeys.map((pubkey) => {
+        const profile = fetched.get(pubkey) ?? toProfile({});
+        profiles.set(pubkey, { ...profile, name: profile.name || shortNpub(pubkey) });
+        return env.nostr_todo.prepare(
+            `INSERT INTO profiles (pubkey, ${PROFILE_FIELDS.join(', ')}, nip05_verified, fetched_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?)
+             ON CONFLICT(pubkey) DO UPDATE SET ${PROFILE_FIELDS.map((field) => `${field} = excluded.${field}`).join(', ')},
+                 nip05_verified = CASE WHEN profiles.nip05 = excluded.nip05 THEN profiles.nip05_verified ELSE 0 END,
+                 fetched_at = excluded.fetched_at
+             RETURNING nip05_verified`
+        ).bind(pubkey, ...PROFILE_FIELDS.map((field) => profile[field]), now);
+    }));
+    pubkeys.forEach((pubkey, i) => {
+        profiles.get(pubkey)!.nip05_verified = results[i].results[0]?.nip05_verified === 1;
+    });
+    ctx.waitUntil(verifyNip05(env, fetched));
+    return profiles;
+}
+
+// Profiles of up to 100 pubkeys. Unknown ones are fetched now, stale ones after the response.
+async function getProfiles(env: Env, pubkeys: string[], ctx: ExecutionContext): Promise<Map<string, Profile>> {
+    if (pubkeys.length === 0) return new Map();
+    const { results } = await env.nostr_todo.prepare(
+        `SELECT pubkey, ${PROFILE_FIELDS.join(', ')}, nip05_verified, fetched_at FROM profiles
+         WHERE pubkey IN (${pubkeys.map(() => '?').join(', ')})`
+    ).bind(...pubkeys).all();
+    const profiles = new Map(results.map((row: any) => [row.pubkey as string, rowToProfile(row)]));
+
+    const now = Math.floor(Date.now() / 1000);
+    const stale = results.filter((row: any) => row.fetched_at < now - PROFILE_FRESH_SECONDS).map((row: any) => row.pubkey);
+    if (stale.length > 0) {
+        ctx.waitUntil(refreshProfiles(env, stale, ctx));
+    }
+    const missing = pubkeys.filter((pubkey) => !profiles.has(pubkey));
+    if (missing.length > 0) {
+        for (const [pubkey, profile] of await refreshProfiles(env, missing, ctx)) {
+            profiles.set(pubkey, profile);
+        }
+    }
+    return profiles;
+}
+
+async function getProfile(env: Env, pubkey: string, ctx: ExecutionContext): Promise<Profile> {
+    return (await getProfiles(env, [pubkey], ctx)).get(pubkey)!;
+}
+
+async function getRecentUsers(env: Env, ctx: ExecutionContext, limit: number = 10): Promise<{ npub: string; profile: Profile }[]> {
+    const { results } = await env.nostr_todo.prepare(
+        `SELECT pubkey, MAX(created_at) as last_created FROM todos
+         WHERE deleted_at IS NULL AND pubkey NOT IN (SELECT pubkey FROM user_settings WHERE public = 0)
+         AND pubkey NOT LIKE '${CHANNEL_LIST_PREFIX}%' AND pubkey NOT IN (SELECT pubkey FROM banned_users)
+         AND pubkey NOT IN (SELECT pubkey FROM rate_limits WHERE count > ?)
+         GROUP BY pubkey ORDER BY last_created DESC LIMIT ?`
+    ).bind(getLimits(env).commandsPerMinute || Number.MAX_SAFE_INTEGER, limit).all();
+
+    const pubkeys = results.map((row: any) => row.pubkey as string);
+    const profiles = await getProfiles(env, pubkeys, ctx);
+    return pubkeys.map((pubkey) => ({ npub: nip19.npubEncode(pubkey), profile: profiles.get(pubkey)! }));
+}
+
+function renderTodoHtml(todo: any, timeZone: string = TIME_ZONE, language: Language = DEFAULT_WEB_LANGUAGE): string {
+    const overdue = isOverdue(todo);
+    const messages = MESSAGES[language].web;
+    return `
+                <div class="todo${todo.completed ? ' completed' : ''}${overdue ? ' overdue' : ''}${todo.parent_id != null ? ' subtask' : ''}" data-id="${escapeHtml(todoLabel(todo))}">
+                    <div class="todo-header">
+                        <div class="todo-id">${escapeHtml(todoLabel(todo))}</div>
+                        ${todo.priority ? `<div class="todo-priority priority-${PRIORITY_NAMES[todo.priority]}">!${PRIORITY_NAMES[todo.priority]}</div>` : ''}
+                        ${todo.due_at != null ? `<div class="todo-due">${overdue ? `⚠️ ${messages.overdue} ` : '⏰ '}${formatDueDate(todo.due_at, timeZone)}</div>` : ''}
+                        ${todo.assignee ? `<a class="todo-assignee" title="${messages.assignee}" href="${config.njumpUrl}/${nip19.npubEncode(todo.assignee)}" target="_blank" rel="noopener noreferrer">👤 ${escapeHtml(shortNpub(todo.assignee))}</a>` : ''}
+                        ${todo.repeat_rule ? `<div class="todo-repeat">🔁 ${escapeHtml(describeRepeatRule(getRepeatRule(todo)!, language))}</div>` : ''}
+                    </div>
+                    <div class="todo-content">${linkifyNostrRefs(escapeHtml(todo.content))}</div>
+                    ${todo.ref_event_id ? renderRefHtml(todo, language) : ''}
+                    ${todo.tags ? `<div class="todo-tags">${getTags(todo).map((tag) => `<a href="?tag=${encodeURIComponent(tag)}" class="todo-tag">#${escapeHtml(tag)}</a>`).join('')}</div>` : ''}
+                    <div class="todo-date">${new Date(todo.created_at * 1000).toLocaleString(messages.locale, { timeZone })}</div>
+                    ${todo.subtasks ? renderSubtasksHtml(todo, timeZone, language) : ''}
+                </div>
+                `;
+}
+
+// Login and logout buttons, and for the owner the controls to edit the list in place through the API
+// with the session cookie. Written without template literals since it is embedded in one.
+function renderEditorScript(language: Language, editable: boolean): string {
+    const messages = JSON.stringify(MESSAGES[language].web.editor).replace(/</g, '\\u003c');
+    return `<script>
+(function () {
+    var M = ${messages};
+    var EDITABLE = ${editable};
+    function api(method, path, body) {
+        return fetch(path, {
+            method: method,
+            credentials: 'same-origin',
+            headers: body ? { 'Content-Type': 'application/json' } : {},
+            body: body ? JSON.stringify(body) : undefined
+        }).then(function (res) {
+            if (res.status === 204) return null;
+            return res.json().then(function (json) {
+                if (!res.ok) throw new Error(json.error || res.statusText);
+                return json;
+            });
+        });
+    }
+    function reload() { location.reload(); }
+    function fail(e) { alert(M.failed + ': ' + e.message); }
+    function button(label, title, onclick) {
+        var b = document.createElement('button');
+        b.type = 'button';
+        b.textContent = label;
+        b.title = title;
+        b.addEventListener('click', onclick);
+        return b;
+    }
+
+    var login = document.getElementById('login');
+    if (login) login.addEventListener('click', function () {
+        if (!window.nostr) { alert(M.noExtension); return; }
+        api('GET', '/api/session/challenge').then(function (r) {
+            return window.nostr.signEvent({
+                kind: 22242,
+                created_at: Math.floor(Date.now() / 1000),
+                tags: [['challenge', r.challenge], ['u', location.origin]],
+                content: ''
+            });
+        }).then(function (event) { return api('POST', '/api/session', event); }).then(reload, fail);
+    });
+    var logout = document.getElementById('logout');
+    if (logout) logout.addEventListener('click', function () {
+        api('DELETE', '/api/session').then(reload, fail);
+    });
+    if (!EDITABLE) return;
+
+    document.getElementById('add-form').addEventListener('submit', function (e) {
+        e.preventDefault();
+        var form = e.target;
+        var body = { content: form.content.value };
+        if (form.due.value) body.due = form.due.value;
+        if (form.priority.value) body.priority = form.priority.value;
+        api('POST', '/api/todos', body).then(reload, fail);
+    });
+
+    function edit(todo, path) {
+        var content = todo.querySelector(':scope > .todo-content');
+        if (content.querySelector('textarea')) return;
+        api('GET', path).then(function (current) {
+            var original = content.innerHTML;
+            var textarea = document.createElement('textarea');
+            textarea.className = 'todo-edit';
+            textarea.value = current.content;
+            content.innerHTML = '';
+            content.appendChild(textarea);
+            content.appendChild(button(M.save, M.save, function () {
+                api('PATCH', path, { content: textarea.value }).then(reload, fail);
+            }));
+            content.appendChild(button(M.cancel, M.cancel, function () { content.innerHTML = original; }));
+            textarea.focus();
+        }, fail);
+    }
+
+    document.querySelectorAll('.todo[data-id]').forEach(function (todo) {
+        var path = '/api/todos/' + todo.getAttribute('data-id');
+        var completed = todo.classList.contains('completed');
+        var actions = document.createElement('div');
+        actions.className = 'todo-actions';
+        actions.appendChild(button(completed ? '↺' : '✓', completed ? M.reopen : M.done, function () {
+            api('PATCH', path, { completed: !completed }).then(reload, fail);
+        }));
+        actions.appendChild(button('✎', M.edit, function () { edit(todo, path); }));
+        actions.appendChild(button('🗑', M.delete, function () {
+            if (confirm(M.confirmDelete)) api('DELETE', path).then(reload, fail);
+        }));
+        todo.querySelector(':scope > .todo-header').appendChild(actions);
+    });
+})();
+</script>`;
+}
+
+// Progress bar and the subtasks, each rendered like a todo so that deeper levels nest the same way
+function renderSubtasksHtml(todo: any, timeZone: string = TIME_ZONE, language: Language = DEFAULT_WEB_LANGUAGE): string {
+    const percent = Math.round(todo.subtask_done / todo.subtask_count * 100);
+    return `<div class="todo-progress">
+                        <div class="todo-progress-bar"><div class="todo-progress-fill" style="width: ${percent}%"></div></div>
+                        <div class="todo-progress-text">${todo.subtask_done}/${todo.subtask_count}</div>
+                    </div>
+                    <div class="subtasks">${todo.subtasks.map((subtask: any) => renderTodoHtml(subtask, timeZone, language)).join('')}</div>`;
+}
+
+function renderStatsHtml(stats: TodoStats, timeZone: string = TIME_ZONE, language: Language = DEFAULT_WEB_LANGUAGE, now: number = Math.floor(Date.now() / 1000)): string {
+    const messages = MESSAGES[language].web;
+    const today = dayNumber(now, timeZone);
+    // Start the heatmap on a Sunday so that each column is one week
+    const start = today - (STATS_DAYS - 1);
+    const first = start - dayOfWeek(start);
+    const cells = [];
+    for (let day = first; day <= today; day++) {
+        const count = stats.days.get(day) ?? 0;
+        const level = count === 0 ? 0 : count === 1 ? 1 : count <= 3 ? 2 : count <= 6 ? 3 : 4;
+        const date = new Date(day * DAY_MS).toISOString().substring(0, 10).replace(/-/g, '/');
+        cells.push(`<div class="heatmap-cell level-${level}" title="${date}: ${count}"></div>`);
+    }
+    return `<div class="stats-grid">
+                    <div class="stat"><div class="stat-value">${stats.openedThisWeek}</div><div class="stat-label">${messages.openedThisWeek}</div></div>
+                    <div class="stat"><div class="stat-value">${stats.closedThisWeek}</div><div class="stat-label">${messages.closedThisWeek}</div></div>
+                    <div class="stat"><div class="stat-value">${stats.averageSeconds != null ? formatDuration(stats.averageSeconds) : '-'}</div><div class="stat-label">${messages.average}</div></div>
+                    <div class="stat"><div class="stat-value">${stats.streak}</div><div class="stat-label">${messages.streak}</div></div>
+                </div>
+                <div class="heatmap">${cells.join('')}</div>`;
+}
+
+// The captured note, quoted under the todo
+function renderRefHtml(todo: any, language: Language = DEFAULT_WEB_LANGUAGE): string {
+    const nevent = encodeRef(todo);
+    const author = todo.ref_pubkey ? nip19.npubEncode(todo.ref_pubkey) : null;
+    return `<blockquote class="todo-ref">
+                        ${author ? `<div class="todo-ref-author"><a href="${config.njumpUrl}/${author}" target="_blank" rel="noopener noreferrer">${author.substring(0, 16)}...</a></div>` : ''}
+                        ${todo.ref_content ? `<div class="todo-ref-content">${linkifyNostrRefs(escapeHtml(todo.ref_content))}</div>` : ''}
+                        <a class="todo-ref-link" href="${config.njumpUrl}/${nevent}" target="_blank" rel="noopener noreferrer">${MESSAGES[language].web.openNote}</a>
+                    </blockquote>`;
+}
+
+function toTodoJson(todo: any): any {
+    return {
+        // Subtasks are identified by a "3.2" style string
+        id: todo.parent_id != null ? todoLabel(todo) : todo.user_id,
+        content: todo.content,
+        completed: todo.completed === 1,
+        completed_at: todo.completed_at,
+        created_at: todo.created_at,
+        due_at: todo.due_at,
+        overdue: isOverdue(todo),
+        priority: todo.priority ? PRIORITY_NAMES[todo.priority] : null,
+        tags: getTags(todo),
+        repeat: todo.repeat_rule ? describeRepeatRule(getRepeatRule(todo)!) : null,
+        assignee: todo.assignee,
+        ref: todo.ref_event_id
+            ? { nevent: encodeRef(todo), pubkey: todo.ref_pubkey, content: todo.ref_content }
+            : null,
+        ...(todo.subtask_count > 0 ? {
+            progress: { done: todo.subtask_done, total: todo.subtask_count },
+            subtasks: (todo.subtasks ?? []).map(toTodoJson),
+        } : {}),
+    };
+}
+
+// Group todos by tag. A todo with several tags appears in each group; untagged todos go under ''.
+function groupTodosByTag(todos: any[]): Map<string, any[]> {
+    const groups = new Map<string, any[]>();
+    for (const todo of todos) {
+        const tags = getTags(todo);
+        for (const tag of tags.length > 0 ? tags : ['']) {
+            if (!groups.has(tag)) groups.set(tag, []);
+            groups.get(tag)!.push(todo);
+        }
+    }
+    return new Map([...groups.entries()].sort(([a], [b]) => (a === '' ? 1 : b === '' ? -1 : a.localeCompare(b))));
+}
+
+type WebViewFormat = 'html' | 'json' | 'ics' | 'rss' | 'atom' | 'txt';
+
+const FEED_CONTENT_TYPES: Record<string, string> = {
+    ics: 'text/calendar; charset=utf-8',
+    rss: 'application/rss+xml; charset=utf-8',
+    atom: 'application/atom+xml; charset=utf-8',
+    txt: 'text/plain; charset=utf-8',
+};
+
+const FEED_ITEM_LIMIT = 50;
+
+// Flatten todos and their subtasks
+function flattenTodos(todos: any[]): any[] {
+    return todos.flatMap((todo) => [todo, ...(todo.subtasks ?? [])]);
+}
+
+function formatICalendarTime(time: number): string {
+    return new Date(time * 1000).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeICalendarText(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Fold a content line at 75 octets (RFC 5545), without splitting a UTF-8 character
+function foldICalendarLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts = [];
+    let current = '';
+    let size = 0;
+    for (const char of line) {
+        const length = encoder.encode(char).length;
+        if (size + length > (parts.length === 0 ? 75 : 74)) {
+            parts.push(current);
+            current = '';
+            size = 0;
+        }
+        current += char;
+        size += length;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+function toICalendarRule(rule: RepeatRule): string {
+    const freq = { day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY' }[rule.unit];
+    let rrule = `FREQ=${freq};INTERVAL=${rule.interval}`;
+    if (rule.weekday !== undefined) rrule += `;BYDAY=${['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'][rule.weekday]}`;
+    if (rule.day !== undefined) rrule += `;BYMONTHDAY=${rule.day}`;
+    return rrule;
+}
+
+// VTODO entries for calendar apps. Subtasks refer to their parent with RELATED-TO.
+function renderICalendar(todos: any[], name: string, url: string): string {
+    const uid = (id: number) => `todo-${id}@${new URL(config.siteUrl).host}`;
+    const now = formatICalendarTime(Math.floor(Date.now() / 1000));
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//nostr-todo-bot//EN',
+        `X-WR-CALNAME:${escapeICalendarText(`TODO - ${name}`)}`,
+    ];
+    for (const todo of flattenTodos(todos)) {
+        lines.push(
+            'BEGIN:VTODO',
+            `UID:${uid(todo.id)}`,
+            `DTSTAMP:${now}`,
+            `CREATED:${formatICalendarTime(todo.created_at)}`,
+            `SUMMARY:${escapeICalendarText(`${todoLabel(todo)}. ${todo.content}`)}`,
+            `STATUS:${todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+            `URL:${url}`,
+        );
+        if (todo.completed_at) lines.push(`COMPLETED:${formatICalendarTime(todo.completed_at)}`);
+        // A recurrence is computed from DTSTART, which must be there with an RRULE
+        if (todo.due_at != null) lines.push(`DTSTART:${formatICalendarTime(todo.due_at)}`, `DUE:${formatICalendarTime(todo.due_at)}`);
+        // iCalendar priorities: 1 is the highest, 5 medium, 9 the lowest
+        if (todo.priority) lines.push(`PRIORITY:${[0, 1, 5, 9][todo.priority]}`);
+        if (todo.tags) lines.push(`CATEGORIES:${getTags(todo).map(escapeICalendarText).join(',')}`);
+        const rule = getRepeatRule(todo);
+        if (rule && todo.due_at != null) lines.push(`RRULE:${toICalendarRule(rule)}`);
+        if (todo.parent_id != null) lines.push(`RELATED-TO:${uid(todo.parent_id)}`);
+        lines.push('END:VTODO');
+    }
+    lines.push('END:VCALENDAR');
+    return lines.map(foldICalendarLine).join('\r\n') + '\r\n';
+}
+
+// todo.txt format: https://github.com/todotxt/todo.txt
+function renderTodoTxt(todos: any[], timeZone: string = TIME_ZONE): string {
+    const date = (time: number) => formatDueDate(time, timeZone).substring(0, 10).replace(/\//g, '-');
+    return flattenTodos(todos).map((todo) => {
+        const parts = [];
+        if (todo.completed) {
+            parts.push('x');
+            // The completion date is only allowed together with the creation date, and a single date
+            // after x would read as the completion date, so a todo without one gets no dates
+            if (todo.completed_at) parts.push(date(todo.completed_at), date(todo.created_at));
+        } else {
+            if (todo.priority) parts.push(`(${'ABC'[todo.priority - 1]})`);
+            parts.push(date(todo.created_at));
+        }
+        parts.push(todo.content.replace(/\s+/g, ' ').trim());
+        parts.push(...getTags(todo).map((tag) => `+${tag}`));
+        if (todo.due_at != null) parts.push(`due:${date(todo.due_at)}`);
+        parts.push(`id:${todoLabel(todo)}`);
+        return parts.join(' ');
+    }).join('\n') + '\n';
+}
+
+type FeedItem = {
+    todo: any;
+    kind: 'added' | 'done';
+    time: number;
+};
+
+// Newest additions and completions, newest first
+async function getFeedItems(env: Env, pubkey: string): Promise<FeedItem[]> {
+    const { results: added } = await env.nostr_todo.prepare(
+        `SELECT ${TODO_COLUMNS} FROM todos WHERE pubkey = ? AND deleted_at IS NULL ORDER BY created_at DESC LIMIT ?`
+    ).bind(pubkey, FEED_ITEM_LIMIT).all();
+    const { results: done } = await env.nostr_todo.prepare(
+        `SELECT ${TODO_COLUMNS} FROM todos WHERE pubkey = ? AND deleted_at IS NULL AND completed = 1 AND completed_at IS NOT NULL
+         ORDER BY completed_at DESC LIMIT ?`
+    ).bind(pubkey, FEED_ITEM_LIMIT).all();
+    return [
+        ...added.map((todo: any): FeedItem => ({ todo, kind: 'added', time: todo.created_at })),
+        ...done.map((todo: any): FeedItem => ({ todo, kind: 'done', time: todo.completed_at })),
+    ].sort((a, b) => b.time - a.time).slice(0, FEED_ITEM_LIMIT);
+}
+
+function feedItemTitle(item: FeedItem, language: Language): string {
+    const messages = MESSAGES[language].web;
+    return `${item.kind === 'done' ? messages.feedDone : messages.feedAdded}: ${todoLabel(item.todo)}. ${previewText(item.todo.content, 50)}`;
+}
+
+function renderRss(items: FeedItem[], name: string, url: string, language: Language = DEFAULT_WEB_LANGUAGE): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+    <channel>
+        <title>${escapeHtml(`TODO - ${name}`)}</title>
+        <link>${url}</link>
+        <description>${escapeHtml(`New and completed TODOs of ${name}`)}</description>
+${items.map((item) => `        <item>
+            <title>${escapeHtml(feedItemTitle(item, language))}</title>
+            <link>${url}</link>
+            <guid isPermaLink="false">nostr-todo:${item.todo.id}:${item.kind}:${item.time}</guid>
+            <pubDate>${new Date(item.time * 1000).toUTCString()}</pubDate>
+            <description>${escapeHtml(item.todo.content)}</description>
+        </item>`).join('\n')}
+    </channel>
+</rss>
+`;
+}
+
+function renderAtom(items: FeedItem[], name: string, url: string, language: Language = DEFAULT_WEB_LANGUAGE): string {
+    const updated = new Date((items.length > 0 ? items[0].time : 0) * 1000).toISOString();
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+    <title>${escapeHtml(`TODO - ${name}`)}</title>
+    <id>${url}</id>
+    <updated>${updated}</updated>
+    <link rel="alternate" href="${url}"/>
+    <link rel="self" href="${url}.atom"/>
+    <author><name>${escapeHtml(name)}</name></author>
+${items.map((item) => `    <entry>
+        <title>${escapeHtml(feedItemTitle(item, language))}</title>
+        <id>${url}#${item.todo.id}-${item.kind}-${item.time}</id>
+        <updated>${new Date(item.time * 1000).toISOString()}</updated>
+        <link rel="alternate" href="${url}"/>
+        <content type="text">${escapeHtml(item.todo.content)}</content>
+    </entry>`).join('\n')}
+</feed>
+`;
+}
+
+// npub is a user's npub, or the nevent of a channel for its shared list.
+// viewer is the pubkey authenticated with NIP-98, if any; only the owner can see a private list
+async function handleWebView(npub: string, env: Env, ctx: ExecutionContext, format: WebViewFormat = 'html', params: URLSearchParams = new URLSearchParams(), viewer: string | null = null): Promise<Response> {
+    try {
+        const decoded = nip19.decode(npub);
+        const channel = decoded.type === 'nevent' ? decoded.data.id : decoded.type === 'note' ? decoded.data : null;
+        if (channel && !await isChannel(env, channel)) {
+            return new Response('Not found', { status: 404 });
+        }
+        const pubkey = channel ? channelListKey(channel) : decoded.data as string;
+        // Path of this list on the site, which the feeds link to
+        const path = channel ? `channel/${npub}` : npub;
+
+        const settings = await getUserSettings(env, pubkey);
+        if ((!settings.public && viewer !== pubkey) || await isBanned(env, pubkey)) {
+            return new Response('Not found', { status: 404 });
+        }
+        const timeZone = settings.timezone;
+        const language = settings.language ?? DEFAULT_WEB_LANGUAGE;
+        const messages = MESSAGES[language].web;
+        // Channel lists are shared, so only personal lists are edited in the page
+        const editable = viewer === pubkey && !channel;
+
+        let profile: Profile;
+        if (channel) {
+            // Channel metadata (kind 40/41) is cached for an hour
+            const cacheKey = `${config.siteUrl}/channel/${channel}`;
+            const cachedResponse = await cache.match(cacheKey);
+            profile = { ...toProfile({}), name: npub.substring(0, 12) + '...' };
+            if (cachedResponse) {
+                profile = { ...profile, ...await cachedResponse.json() };
+            } else {
+                try {
+                    const metadata = await fetchChannelProfile(env, channel);
+                    if (metadata) {
+                        profile = { ...profile, name: metadata.name || profile.name, picture: metadata.picture };
+                        await cache.put(cacheKey, new Response(JSON.stringify({ name: profile.name, picture: profile.picture }), {
+                            headers: {
+                                'Content-Type': 'application/json',
+                                'Cache-Control': 'public, max-age=3600'
+                            }
+                        }));
+                    }
+                } catch (e) {
+                    console.error('Failed to fetch channel from relays:', e);
+                }
+            }
+        } else {
+            profile = await getProfile(env, pubkey, ctx);
+        }
+
+        // Filter with ?tag=work&priority=high, group with ?group=tag
+        const filter: TodoFilter = {
+            tags: params.getAll('tag').map((tag) => tag.replace(/^#/, '').toLowerCase()).filter((tag) => tag),
+            priority: parsePriority(params.get('priority') || ''),
+        };
+        const groupByTag = params.get('group') === 'tag';
+        const where = buildTodoFilter(filter);
+
+        const { results } = await env.nostr_todo.prepare(
+            `SELECT ${TODO_COLUMNS} FROM todos WHERE pubkey = ? AND parent_id IS NULL AND deleted_at IS NULL AND archived_at IS NULL${where.sql} ORDER BY completed ASC, ${TODO_ORDERS[settings.sort]}`
+        ).bind(pubkey, ...where.params).all();
+        await attachSubtasks(env, pubkey, results);
+
+        // Calendar, feed and todo.txt formats
+        if (format in FEED_CONTENT_TYPES) {
+            const url = `${config.siteUrl}/${path}`;
+            const body = format === 'ics' ? renderICalendar(results, profile.name, url)
+                : format === 'txt' ? renderTodoTxt(results, timeZone)
+                : format === 'rss' ? renderRss(await getFeedItems(env, pubkey), profile.name, url, language)
+                : renderAtom(await getFeedItems(env, pubkey), profile.name, url, language);
+            return new Response(body, {
+                headers: {
+                    'Content-Type': FEED_CONTENT_TYPES[format],
+                    'Access-Control-Allow-Origin': '*'
+                }
+            });
+        }
+
+        const { results: tagRows } = await env.nostr_todo.prepare(
+            `SELECT tag, COUNT(*) AS count FROM todo_tags JOIN todos ON todos.id = todo_tags.todo_id
+             WHERE todos.pubkey = ? AND todos.completed = 0 AND todos.deleted_at IS NULL GROUP BY tag ORDER BY tag ASC`
+        ).bind(pubkey).all();
+
+        const stats = await getTodoStats(env, pubkey, undefined, timeZone);
+
+        const incompleteTodos = results.filter((r: any) => r.completed === 0);
+        const completedTodos = results.filter((r: any) => r.completed === 1);
+        const filtered = filter.tags.length > 0 || filter.priority !== null;
+
+        // JSON format
+        if (format === 'json') {
+            return new Response(JSON.stringify({
+                ...(channel ? { channel: { id: channel, nevent: npub } } : { npub, pubkey }),
+                profile,
+                filter: {
+                    tags: filter.tags,
+                    priority: filter.priority ? PRIORITY_NAMES[filter.priority] : null,
+                },
+                tags: tagRows.map((r: any) => ({ tag: r.tag, count: r.count })),
+                stats: {
+                    opened_this_week: stats.openedThisWeek,
+                    closed_this_week: stats.closedThisWeek,
+                    average_seconds: stats.averageSeconds,
+                    streak: stats.streak,
+                },
+                todos: {
+                    incomplete: incompleteTodos.map(toTodoJson),
+                    completed: completedTodos.map(toTodoJson)
+                },
+                ...(groupByTag ? {
+                    groups: [...groupTodosByTag(incompleteTodos).entries()].map(([tag, todos]) => ({
+                        tag: tag || null,
+                        todos: todos.map(toTodoJson),
+                    })),
+                } : {}),
+            }, null, 2), {
+                headers: {
+                    'Content-Type': 'application/json; charset=utf-8',
+                    'Access-Control-Allow-Origin': '*'
+                }
+            });
+        }
+
+        const htmlContent = `<!DOCTYPE html>
+<html lang="${language}">
+<head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>TODO List - ${escapeHtml(profile.name)}</title>
+    <link rel="alternate" type="application/rss+xml" title="RSS" href="/${path}.rss">
+    <link rel="alternate" type="application/atom+xml" title="Atom" href="/${path}.atom">
     <style>
         * { margin: 0; padding: 0; box-sizing: border-box; }
         body { 
@@ -568,7 +3880,27 @@ async function handleWebView(npub: string, env: Env, format: 'html' | 'json' = '
             border: 4px solid rgba(255, 255, 255, 0.3);
             background: rgba(255, 255, 255, 0.2);
         }
-        .profile-info { flex: 1; }
+        .profile-info { flex: 1; min-width: 0; }
+        .profile-nip05 {
+            font-size: 0.9em;
+            opacity: 0.9;
+            margin-bottom: 8px;
+        }
+        .profile-about {
+            margin-top: 10px;
+            font-size: 0.9em;
+            white-space: pre-wrap;
+            word-break: break-word;
+            max-height: 6em;
+            overflow: hidden;
+        }
+        .profile-lud16 {
+            display: inline-block;
+            margin-top: 8px;
+            color: white;
+            font-size: 0.85em;
+            opacity: 0.9;
+        }
         .profile-name {
             font-size: 2em;
             font-weight: bold;
@@ -668,16 +4000,225 @@ async function handleWebView(npub: string, env: Env, format: 'html' | 'json' = '
             color: #333;
             font-size: 1.05em;
         }
-        .todo-date {
-            margin-top: 8px;
-            font-size: 0.85em;
-            color: #999;
-            font-style: italic;
+        .todo-date {
+            margin-top: 8px;
+            font-size: 0.85em;
+            color: #999;
+            font-style: italic;
+        }
+        .todo-due {
+            background: #eef2ff;
+            color: #667eea;
+            padding: 4px 10px;
+            border-radius: 20px;
+            font-size: 0.85em;
+            font-weight: 600;
+        }
+        .todo.overdue {
+            border-color: #fca5a5;
+            background: #fef2f2;
+        }
+        .todo-repeat {
+            background: #ecfdf5;
+            color: #059669;
+            padding: 4px 10px;
+            border-radius: 20px;
+            font-size: 0.85em;
+            font-weight: 600;
+        }
+        .todo-assignee {
+            background: #eef2ff;
+            color: #4f46e5;
+            padding: 4px 10px;
+            border-radius: 20px;
+            font-size: 0.85em;
+            font-weight: 600;
+            text-decoration: none;
+        }
+        .stats-grid {
+            display: grid;
+            grid-template-columns: repeat(4, 1fr);
+            gap: 12px;
+            margin-bottom: 20px;
+        }
+        .stat {
+            background: #f9fafb;
+            border-radius: 12px;
+            padding: 16px;
+            text-align: center;
+        }
+        .stat-value {
+            font-size: 1.6em;
+            font-weight: bold;
+            color: #667eea;
+        }
+        .stat-label {
+            font-size: 0.85em;
+            color: #6b7280;
+        }
+        .heatmap {
+            display: grid;
+            grid-template-rows: repeat(7, 10px);
+            grid-auto-flow: column;
+            grid-auto-columns: 10px;
+            gap: 2px;
+            overflow-x: auto;
+        }
+        .heatmap-cell { border-radius: 2px; }
+        .heatmap-cell.level-0 { background: #ebedf0; }
+        .heatmap-cell.level-1 { background: #c7d2fe; }
+        .heatmap-cell.level-2 { background: #a5b4fc; }
+        .heatmap-cell.level-3 { background: #818cf8; }
+        .heatmap-cell.level-4 { background: #667eea; }
+        .todo-progress {
+            display: flex;
+            align-items: center;
+            gap: 10px;
+            margin-top: 10px;
+        }
+        .todo-progress-bar {
+            flex: 1;
+            height: 8px;
+            background: #e5e7eb;
+            border-radius: 4px;
+            overflow: hidden;
+        }
+        .todo-progress-fill {
+            height: 100%;
+            background: linear-gradient(90deg, #667eea 0%, #10b981 100%);
+        }
+        .todo-progress-text {
+            font-size: 0.85em;
+            color: #6b7280;
+            font-weight: 600;
+        }
+        .subtasks {
+            margin-top: 10px;
+            padding-left: 16px;
+            border-left: 2px solid #e5e7eb;
+        }
+        .todo.subtask {
+            margin: 8px 0;
+            padding: 10px 14px;
+        }
+        .todo.overdue .todo-due {
+            background: #ef4444;
+            color: white;
+        }
+        .todo-priority {
+            padding: 4px 10px;
+            border-radius: 20px;
+            font-size: 0.85em;
+            font-weight: 600;
+            color: white;
+        }
+        .priority-high { background: #ef4444; }
+        .priority-medium { background: #f59e0b; }
+        .priority-low { background: #9ca3af; }
+        .todo-tags {
+            margin-top: 8px;
+            display: flex;
+            flex-wrap: wrap;
+            gap: 6px;
+        }
+        .todo-tag, .filter-tag {
+            background: #f3f4f6;
+            color: #667eea;
+            padding: 2px 10px;
+            border-radius: 20px;
+            font-size: 0.85em;
+            text-decoration: none;
+        }
+        .todo-tag:hover, .filter-tag:hover, .filter-tag.active {
+            background: #667eea;
+            color: white;
+        }
+        .todo-ref {
+            margin: 10px 0 0;
+            padding: 10px 14px;
+            border-left: 3px solid #667eea;
+            background: #f9fafb;
+            border-radius: 6px;
+            font-size: 0.9em;
+            color: #4b5563;
+        }
+        .todo-ref-author a {
+            color: #667eea;
+            font-weight: 600;
+            text-decoration: none;
+        }
+        .todo-ref-content {
+            margin: 4px 0;
+            white-space: pre-wrap;
+            word-break: break-word;
+        }
+        .todo-ref-link {
+            font-size: 0.85em;
+            color: #9ca3af;
+        }
+        .filter-bar {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 8px;
+            align-items: center;
+            margin-bottom: 30px;
+        }
+        .group-title {
+            font-weight: 600;
+            color: #667eea;
+            margin: 20px 0 8px;
+        }
+        .todo.completed .todo-content {
+            text-decoration: line-through;
+            color: #999;
+        }
+        .session-button {
+            position: absolute;
+            top: 20px;
+            right: 20px;
+            background: rgba(255, 255, 255, 0.2);
+            color: white;
+            border: none;
+            border-radius: 20px;
+            padding: 6px 14px;
+            cursor: pointer;
+        }
+        .add-form {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 8px;
+            margin-bottom: 30px;
+        }
+        .add-form input, .add-form select, .todo-edit {
+            padding: 8px 12px;
+            border: 1px solid #e5e7eb;
+            border-radius: 8px;
+            font-size: 1em;
+        }
+        .add-form input[name="content"] { flex: 1; min-width: 200px; }
+        .add-form button, .todo-content button {
+            background: #667eea;
+            color: white;
+            border: none;
+            border-radius: 8px;
+            padding: 8px 16px;
+            margin-right: 4px;
+            cursor: pointer;
         }
-        .todo.completed .todo-content {
-            text-decoration: line-through;
-            color: #999;
+        .todo-actions {
+            margin-left: auto;
+            display: flex;
+            gap: 4px;
         }
+        .todo-actions button {
+            background: none;
+            border: none;
+            cursor: pointer;
+            font-size: 1em;
+            opacity: 0.6;
+        }
+        .todo-actions button:hover { opacity: 1; }
+        .todo-edit { width: 100%; min-height: 80px; margin-bottom: 8px; font-family: inherit; }
         @media (max-width: 600px) {
             body { padding: 10px; }
             .header { padding: 30px 20px; }
@@ -689,68 +4230,898 @@ async function handleWebView(npub: string, env: Env, format: 'html' | 'json' = '
 </head>
 <body>
     <div class="container">
-        <div class="header">
-            <a href="/" class="home-link" title="トップページへ">🏠</a>
+        <div class="header"${isSafeImageUrl(profile.banner) ? ` style="background-image: linear-gradient(rgba(102, 126, 234, 0.75), rgba(118, 75, 162, 0.75)), url('${escapeHtml(profile.banner)}'); background-size: cover; background-position: center;"` : ''}>
+            <a href="/" class="home-link" title="${messages.home}">🏠</a>
+            ${channel ? '' : viewer ? `<button type="button" id="logout" class="session-button">${messages.logout}</button>`
+                : `<button type="button" id="login" class="session-button">${messages.login}</button>`}
             <div class="profile">
                 ${profile.picture ? `<img src="${escapeHtml(profile.picture)}" alt="${escapeHtml(profile.name)}" class="profile-icon" onerror="this.style.display='none'">` : '<div class="profile-icon"></div>'}
                 <div class="profile-info">
                     <div class="profile-name">${escapeHtml(profile.name)}</div>
+                    ${profile.nip05_verified ? `<div class="profile-nip05" title="NIP-05">✓ ${escapeHtml(profile.nip05.replace(/^_@/, ''))}</div>` : ''}
                     <div class="profile-npub">${escapeHtml(npub)}</div>
+                    ${profile.about ? `<div class="profile-about">${escapeHtml(profile.about)}</div>` : ''}
+                    ${profile.lud16 ? `<a class="profile-lud16" href="lightning:${escapeHtml(profile.lud16)}">⚡ ${escapeHtml(profile.lud16)}</a>` : ''}
                 </div>
             </div>
         </div>
         
         <div class="content">
+            ${editable ? `
+            <form id="add-form" class="add-form">
+                <input name="content" placeholder="${messages.addPlaceholder}" required>
+                <input name="due" placeholder="${messages.duePlaceholder}">
+                <select name="priority">
+                    <option value="">${messages.noPriority}</option>
+                    ${PRIORITY_NAMES.filter((name) => name).map((name) => `<option value="${name}">!${name}</option>`).join('')}
+                </select>
+                <button type="submit">${messages.add}</button>
+            </form>` : ''}
+            ${tagRows.length > 0 || filtered ? `
+            <div class="filter-bar">
+                <a href="?" class="filter-tag${!filtered && !groupByTag ? ' active' : ''}">${messages.all}</a>
+                <a href="?group=tag" class="filter-tag${groupByTag ? ' active' : ''}">${messages.byTag}</a>
+                ${tagRows.map((r: any) => `<a href="?tag=${encodeURIComponent(r.tag)}" class="filter-tag${filter.tags.includes(r.tag) ? ' active' : ''}">#${escapeHtml(r.tag)} (${r.count})</a>`).join('')}
+            </div>` : ''}
             <div class="section">
                 <div class="section-header">
-                    <div class="section-title">📝 未完了</div>
+                    <div class="section-title">📝 ${messages.open}</div>
                     <div class="section-count">${incompleteTodos.length}</div>
                 </div>
-                ${incompleteTodos.length === 0 ? '<div class="empty-state">🎉 すべて完了しました！</div>' : incompleteTodos.map((todo: any) => `
-                <div class="todo">
-                    <div class="todo-header">
-                        <div class="todo-id">${escapeHtml(String(todo.user_id))}</div>
-                    </div>
-                    <div class="todo-content">${linkifyNostrRefs(escapeHtml(todo.content))}</div>
-                    <div class="todo-date">${new Date(todo.created_at * 1000).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}</div>
-                </div>
-                `).join('')}
+                ${incompleteTodos.length === 0
+                    ? `<div class="empty-state">🎉 ${messages.allDone}</div>`
+                    : groupByTag
+                        ? [...groupTodosByTag(incompleteTodos).entries()].map(([tag, todos]) => `
+                <div class="group-title">${tag ? `#${escapeHtml(tag)}` : messages.noTag}</div>
+                ${todos.map((todo) => renderTodoHtml(todo, timeZone, language)).join('')}`).join('')
+                        : incompleteTodos.map((todo) => renderTodoHtml(todo, timeZone, language)).join('')}
             </div>
             
             <div class="section completed">
                 <div class="section-header">
-                    <div class="section-title">✅ 完了</div>
+                    <div class="section-title">✅ ${messages.completed}</div>
                     <div class="section-count">${completedTodos.length}</div>
                 </div>
-                ${completedTodos.length === 0 ? '<div class="empty-state">完了したTODOはありません</div>' : completedTodos.map((todo: any) => `
-                <div class="todo completed">
-                    <div class="todo-header">
-                        <div class="todo-id">${escapeHtml(String(todo.user_id))}</div>
-                    </div>
-                    <div class="todo-content">${linkifyNostrRefs(escapeHtml(todo.content))}</div>
-                    <div class="todo-date">${new Date(todo.created_at * 1000).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}</div>
+                ${completedTodos.length === 0 ? `<div class="empty-state">${messages.noCompleted}</div>` : completedTodos.map((todo) => renderTodoHtml(todo, timeZone, language)).join('')}
+            </div>
+
+            <div class="section">
+                <div class="section-header">
+                    <div class="section-title">📊 ${messages.stats}</div>
                 </div>
-                `).join('')}
+                ${renderStatsHtml(stats, timeZone, language)}
             </div>
         </div>
     </div>
+    ${channel ? '' : renderEditorScript(language, editable)}
 </body>
 </html>`;
 
         return new Response(htmlContent, {
-            headers: { 'Content-Type': 'text/html; charset=utf-8' }
+            headers: {
+                'Content-Type': 'text/html; charset=utf-8',
+                // Pages shown to a signed-in viewer must not be cached for others
+                ...(viewer ? { 'Cache-Control': 'private, no-store' } : {})
+            }
         });
     } catch (e) {
         return new Response('Invalid npub', { status: 400 });
     }
 }
 
+// NIP-98 HTTP Auth events are accepted within this many seconds of created_at
+const HTTP_AUTH_WINDOW_SECONDS = 60;
+
+const API_PAGE_SIZE = 50;
+const API_MAX_PAGE_SIZE = 100;
+
+async function sha256Hex(data: string | ArrayBuffer): Promise<string> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    return bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)));
+}
+
+// HMAC of message with the bot's key, for tokens that are checked without storing them
+async function hmacHex(env: Env, message: string): Promise<string> {
+    const key = await crypto.subtle.importKey(
+        'raw', new TextEncoder().encode(env.TODO_NSEC), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'],
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+    return bytesToHex(new Uint8Array(signature));
+}
+
+// Web view sessions. The owner signs a challenge with a NIP-07 extension, and gets a session cookie
+// that the web view and the API accept in place of NIP-98 HTTP Auth.
+const SESSION_COOKIE = 'nostr_todo_session';
+const SESSION_SECONDS = 30 * 24 * 60 * 60;
+// Login events use the NIP-42 auth kind, with the challenge and the site's origin as tags
+const LOGIN_EVENT_KIND = 22242;
+const CHALLENGE_SECONDS = 5 * 60;
+
+// A challenge is "<time>.<nonce>.<hmac>", so the server does not keep issued challenges
+async function createChallenge(env: Env): Promise<string> {
+    const issued = `${Math.floor(Date.now() / 1000)}.${bytesToHex(crypto.getRandomValues(new Uint8Array(16)))}`;
+    return `${issued}.${await hmacHex(env, `challenge:${issued}`)}`;
+}
+
+async function verifyChallenge(env: Env, challenge: string): Promise<boolean> {
+    const [time, nonce, mac] = challenge.split('.');
+    if (!time || !nonce || !mac) return false;
+    const age = Math.floor(Date.now() / 1000) - parseInt(time);
+    return age >= 0 && age <= CHALLENGE_SECONDS && mac === await hmacHex(env, `challenge:${time}.${nonce}`);
+}
+
+function getCookie(request: Request, name: string): string | null {
+    for (const part of (request.headers.get("Cookie") || "").split(";")) {
+        const [key, ...value] = part.trim().split("=");
+        if (key === name) return value.join("=");
+    }
+    return null;
+}
+
+function sessionCookie(token: string, maxAge: number): string {
+    return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; Secure; SameSite=Strict; Max-Age=${maxAge}`;
+}
+
+// The pubkey of a valid session cookie. Only a hash of the token is stored.
+async function getSessionPubkey(request: Request, env: Env): Promise<string | null> {
+    const token = getCookie(request, SESSION_COOKIE);
+    if (!token) return null;
+    const session: any = await env.nostr_todo.prepare(
+        'SELECT pubkey FROM sessions WHERE id = ? AND expires_at > ?'
+    ).bind(await sha256Hex(token), Math.floor(Date.now() / 1000)).first();
+    return session ? session.pubkey : null;
+}
+
+// Who is looking at a page: NIP-98 HTTP Auth or a session cookie, or null for an anonymous visitor
+async function authenticateViewer(request: Request, env: Env): Promise<string | null> {
+    if (request.headers.has("Authorization")) {
+        try {
+            return (await authenticateHttpAuth(request, env, "")).pubkey;
+        } catch (e) {
+            // Treat a bad authorization like an anonymous visitor
+        }
+    }
+    return getSessionPubkey(request, env);
+}
+
+// GET /api/session/challenge, POST /api/session with the signed login event, DELETE /api/session
+async function handleSession(request: Request, env: Env, pathArray: string[]): Promise<Response> {
+    if (pathArray[3] === "challenge" && request.method === "GET") {
+        return apiResponse({ challenge: await createChallenge(env) }, 200, { "cache-control": "no-store" });
+    }
+    if (pathArray.length > 3) {
+        return apiError(404, "Not found");
+    }
+
+    if (request.method === "POST") {
+        let event: Event;
+        try {
+            event = JSON.parse(await request.text());
+        } catch (e) {
+            return apiError(400, "Invalid JSON");
+        }
+        const tag = (name: string) => event.tags?.find((t) => t[0] === name)?.[1];
+        if (!verifyEvent(event)) return apiError(401, "Invalid event signature");
+        if (event.kind !== LOGIN_EVENT_KIND) return apiError(401, "Invalid event kind");
+        if (Math.abs(Math.floor(Date.now() / 1000) - event.created_at) > HTTP_AUTH_WINDOW_SECONDS) {
+            return apiError(401, "Login event expired");
+        }
+        if (tag("u") !== new URL(request.url).origin) return apiError(401, "Origin does not match");
+        const challenge = tag("challenge") || "";
+        if (!await verifyChallenge(env, challenge)) return apiError(401, "Invalid challenge");
+        if (await isBanned(env, event.pubkey)) return apiError(403, "Forbidden");
+
+        const token = bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+        const now = Math.floor(Date.now() / 1000);
+        // The unique challenge makes a login event usable only once
+        const inserted = await env.nostr_todo.prepare(
+            'INSERT OR IGNORE INTO sessions (id, pubkey, challenge, created_at, expires_at) VALUES (?, ?, ?, ?, ?)'
+        ).bind(await sha256Hex(token), event.pubkey, challenge, now, now + SESSION_SECONDS).run();
+        if (inserted.meta.changes === 0) return apiError(401, "Challenge already used");
+
+        return apiResponse({ pubkey: event.pubkey, npub: nip19.npubEncode(event.pubkey) }, 201, {
+            "set-cookie": sessionCookie(token, SESSION_SECONDS),
+        });
+    }
+
+    if (request.method === "DELETE") {
+        const token = getCookie(request, SESSION_COOKIE);
+        if (token) {
+            await env.nostr_todo.prepare('DELETE FROM sessions WHERE id = ?').bind(await sha256Hex(token)).run();
+        }
+        return new Response(null, { status: 204, headers: { "set-cookie": sessionCookie("", 0) } });
+    }
+
+    return apiError(405, "Method not allowed");
+}
+
+async function purgeSessions(env: Env): Promise<void> {
+    await env.nostr_todo.prepare(
+        'DELETE FROM sessions WHERE expires_at < ?'
+    ).bind(Math.floor(Date.now() / 1000)).run();
+}
+
+// The API accepts NIP-98 HTTP Auth, or the session cookie of the web view. Requests with a session
+// have no event to record in the history.
+type ApiAuth = { pubkey: string; eventId: string | null };
+
+async function authenticateApi(request: Request, env: Env, body: string): Promise<ApiAuth> {
+    if (!request.headers.has("Authorization")) {
+        const pubkey = await getSessionPubkey(request, env);
+        if (pubkey) return { pubkey, eventId: null };
+    }
+    const event = await authenticateHttpAuth(request, env, body);
+    return { pubkey: event.pubkey, eventId: event.id };
+}
+
+// Check a NIP-98 "Authorization: Nostr <base64 event>" header and return the signed event.
+// Throws with a message suitable for a 401 response.
+async function authenticateHttpAuth(request: Request, env: Env, body: string): Promise<Event> {
+    const authorization = request.headers.get("Authorization") || "";
+    const [scheme, encoded] = authorization.split(" ");
+    if (scheme !== "Nostr" || !encoded) throw new Error("Missing Nostr authorization");
+
+    let event: Event;
+    try {
+        event = JSON.parse(new TextDecoder().decode(Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0))));
+    } catch (e) {
+        throw new Error("Malformed authorization event");
+    }
+    if (!verifyEvent(event)) throw new Error("Invalid event signature");
+    if (event.kind !== 27235) throw new Error("Invalid event kind");
+    if (Math.abs(Math.floor(Date.now() / 1000) - event.created_at) > HTTP_AUTH_WINDOW_SECONDS) {
+        throw new Error("Authorization event expired");
+    }
+
+    const tag = (name: string) => event.tags.find((t) => t[0] === name)?.[1];
+    if (tag("u") !== request.url) throw new Error("URL does not match");
+    if ((tag("method") || "").toUpperCase() !== request.method) throw new Error("Method does not match");
+    if (body) {
+        const payload = tag("payload");
+        if (payload === undefined) throw new Error("Missing payload tag");
+        if (payload !== await sha256Hex(body)) throw new Error("Payload does not match");
+    }
+
+    // Each authorization event is good for one request. processed_events is kept for longer than
+    // HTTP_AUTH_WINDOW_SECONDS, so a captured header cannot be replayed.
+    const claimed = await env.nostr_todo.prepare(
+        'INSERT OR IGNORE INTO processed_events (event_id, pubkey, created_at) VALUES (?, ?, ?)'
+    ).bind(event.id, event.pubkey, Math.floor(Date.now() / 1000)).run();
+    if (claimed.meta.changes === 0) throw new Error("Authorization event already used");
+    return event;
+}
+
+function apiResponse(value: any, status: number = 200, headers: Record<string, string> = {}): Response {
+    return new Response(value === null ? null : JSON.stringify(value, null, 2), {
+        status,
+        headers: {
+            "access-control-allow-origin": "*",
+            "access-control-expose-headers": "ETag, Location",
+            "content-type": "application/json; charset=UTF-8",
+            ...headers,
+        },
+    });
+}
+
+function apiError(status: number, message: string): Response {
+    return apiResponse({ error: message }, status);
+}
+
+// Respond with a weak ETag, or 304 when the client already has this representation
+async function apiResponseWithETag(request: Request, value: any): Promise<Response> {
+    const etag = `W/"${await sha256Hex(JSON.stringify(value))}"`;
+    if (request.headers.get("If-None-Match") === etag) {
+        return new Response(null, { status: 304, headers: { "etag": etag, "access-control-allow-origin": "*" } });
+    }
+    return apiResponse(value, 200, { "etag": etag });
+}
+
+async function todoETag(todo: any): Promise<string> {
+    return `W/"${await sha256Hex(JSON.stringify(toTodoJson(todo)))}"`;
+}
+
+// Parse a due value from the API: unix seconds, an ISO 8601 string, a phrase like "明日 18:00", or null
+function parseApiDue(value: any, timeZone: string = TIME_ZONE): number | null | undefined {
+    if (value === null) return null;
+    if (typeof value === 'number' && Number.isInteger(value)) return value;
+    if (typeof value !== 'string') return undefined;
+    const due = parseDueDate(value, undefined, timeZone);
+    if (due && !due.rest) return due.dueAt;
+    const time = Date.parse(value);
+    return isNaN(time) ? undefined : Math.floor(time / 1000);
+}
+
+// Validate a POST/PATCH body into changes. Returns an error message for invalid input.
+function parseApiChanges(body: any, timeZone: string = TIME_ZONE): TodoChanges & { completed?: boolean } | string {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) return 'Body must be a JSON object';
+    const changes: TodoChanges & { completed?: boolean } = {};
+    if (body.content !== undefined) {
+        if (typeof body.content !== 'string' || !body.content.trim()) return 'content must be a non-empty string';
+        changes.content = body.content.trim();
+    }
+    if (body.due !== undefined) {
+        const due = parseApiDue(body.due, timeZone);
+        if (due === undefined) return 'due must be unix seconds, a date string or null';
+        changes.due_at = due;
+    }
+    if (body.priority !== undefined) {
+        const priority = body.priority === null ? null : parsePriority(String(body.priority));
+        if (body.priority !== null && priority === null) {
+            return 'priority must be high, medium, low or null';
+        }
+        changes.priority = priority;
+    }
+    if (body.tags !== undefined) {
+        if (!Array.isArray(body.tags) || body.tags.some((tag: any) => typeof tag !== 'string' || /\s/.test(tag) || !tag)) {
+            return 'tags must be an array of strings without spaces';
+        }
+        changes.tags = [...new Set<string>(body.tags.map((tag: string) => tag.replace(/^#/, '').toLowerCase()))];
+    }
+    if (body.completed !== undefined) {
+        if (typeof body.completed !== 'boolean') return 'completed must be a boolean';
+        changes.completed = body.completed;
+    }
+    return changes;
+}
+
+// JSON API authenticated with NIP-98, or the session cookie of the web view:
+//   GET    /api/todos[?completed=&tag=&priority=&limit=&offset=]
+//   POST   /api/todos
+//   GET    /api/todos/:id
+//   PATCH  /api/todos/:id
+//   DELETE /api/todos/:id
+//   GET    /api/session/challenge, POST /api/session, DELETE /api/session
+async function handleApi(request: Request, env: Env, pathArray: string[]): Promise<Response> {
+    if (request.method === "OPTIONS") {
+        return new Response(null, {
+            status: 204,
+            headers: {
+                "access-control-allow-origin": "*",
+                "access-control-allow-methods": "GET, POST, PATCH, DELETE, OPTIONS",
+                "access-control-allow-headers": "Authorization, Content-Type, If-Match, If-None-Match",
+                "access-control-max-age": "86400",
+            },
+        });
+    }
+    if (pathArray[2] === "session") {
+        return handleSession(request, env, pathArray);
+    }
+    if (pathArray[2] !== "todos" || pathArray.length > 4) {
+        return apiError(404, "Not found");
+    }
+
+    const body = request.method === "POST" || request.method === "PATCH" ? await request.text() : "";
+    let auth: ApiAuth;
+    try {
+        auth = await authenticateApi(request, env, body);
+    } catch (e: any) {
+        return apiError(401, e.message);
+    }
+    const pubkey = auth.pubkey;
+    if (await isBanned(env, pubkey)) {
+        return apiError(403, "Forbidden");
+    }
+    if (!await consumeRateLimit(env, pubkey)) {
+        const response = apiError(429, MESSAGES_EN.rateLimited(getLimits(env).commandsPerMinute));
+        response.headers.set("retry-after", "60");
+        return response;
+    }
+
+    // Collection
+    if (pathArray.length === 3 || pathArray[3] === "") {
+        if (request.method === "GET") {
+            const params = new URL(request.url).searchParams;
+            const limit = Math.min(parseInt(params.get("limit") || String(API_PAGE_SIZE)), API_MAX_PAGE_SIZE);
+            const offset = parseInt(params.get("offset") || "0");
+            if (!(limit > 0) || !(offset >= 0)) {
+                return apiError(400, "limit and offset must be positive integers");
+            }
+            const filter: TodoFilter = {
+                tags: params.getAll("tag").map((tag) => tag.replace(/^#/, '').toLowerCase()),
+                priority: parsePriority(params.get("priority") || ''),
+            };
+            const where = buildTodoFilter(filter);
+            const completed = params.get("completed");
+            if (completed !== null) {
+                if (completed !== "true" && completed !== "false") {
+                    return apiError(400, "completed must be true or false");
+                }
+                where.sql += " AND completed = ?";
+                where.params.push(completed === "true" ? 1 : 0);
+            }
+            const settings = await getUserSettings(env, pubkey);
+            // Fetch one extra row to know whether there is a next page
+            const { results } = await env.nostr_todo.prepare(
+                `SELECT ${TODO_COLUMNS} FROM todos WHERE pubkey = ? AND parent_id IS NULL AND deleted_at IS NULL${where.sql}
+                 ORDER BY completed ASC, ${TODO_ORDERS[settings.sort]} LIMIT ? OFFSET ?`
+            ).bind(pubkey, ...where.params, limit + 1, offset).all();
+            await attachSubtasks(env, pubkey, results);
+
+            let next = null;
+            if (results.length > limit) {
+                const url = new URL(request.url);
+                url.searchParams.set("limit", String(limit));
+                url.searchParams.set("offset", String(offset + limit));
+                next = url.pathname + url.search;
+            }
+            return apiResponseWithETag(request, {
+                todos: results.slice(0, limit).map(toTodoJson),
+                next,
+            });
+        }
+
+        if (request.method === "POST") {
+            let json: any;
+            try {
+                json = JSON.parse(body);
+            } catch (e) {
+                return apiError(400, "Invalid JSON");
+            }
+            const changes = parseApiChanges(json, (await getUserSettings(env, pubkey)).timezone);
+            if (typeof changes === "string") return apiError(422, changes);
+            if (changes.content === undefined) return apiError(422, "content is required");
+            const overQuota = await checkQuota(env, pubkey, pubkey, [changes.content], changes.completed ? 0 : 1);
+            if (overQuota) return apiError(422, overQuota);
+
+            let todo = await insertTodo(env, pubkey, {
+                content: changes.content,
+                due_at: changes.due_at ?? null,
+                priority: changes.priority ?? null,
+                tags: changes.tags ?? [],
+            }, auth.eventId);
+            if (changes.completed) {
+                await applyTodoAction(env, "done", [todo], auth.eventId);
+                todo = await findTodo(env, pubkey, todo.user_id);
+            }
+            return apiResponse(toTodoJson(todo), 201, {
+                "location": `/api/todos/${todo.user_id}`,
+                "etag": await todoETag(todo),
+            });
+        }
+
+        return apiError(405, "Method not allowed");
+    }
+
+    // Single todo, or a subtask as /api/todos/3.2
+    const key = parseTodoKey(pathArray[3]);
+    if (!key) {
+        return apiError(404, "Not found");
+    }
+    const todo = await findTodoByKey(env, pubkey, key);
+    if (!todo) {
+        return apiError(404, `Not found: ${formatTodoKey(key)}`);
+    }
+
+    if (request.method === "GET") {
+        await attachSubtasks(env, pubkey, [todo]);
+        return apiResponseWithETag(request, toTodoJson(todo));
+    }
+
+    if (request.method !== "PATCH" && request.method !== "DELETE") {
+        return apiError(405, "Method not allowed");
+    }
+
+    // Optimistic concurrency with If-Match
+    const ifMatch = request.headers.get("If-Match");
+    if (ifMatch && ifMatch !== "*" && ifMatch !== await todoETag(todo)) {
+        return apiError(412, "Precondition failed");
+    }
+
+    if (request.method === "DELETE") {
+        await applyTodoAction(env, "delete", [todo], auth.eventId);
+        return new Response(null, { status: 204, headers: { "access-control-allow-origin": "*" } });
+    }
+
+    let json: any;
+    try {
+        json = JSON.parse(body);
+    } catch (e) {
+        return apiError(400, "Invalid JSON");
+    }
+    const changes = parseApiChanges(json, (await getUserSettings(env, pubkey)).timezone);
+    if (typeof changes === "string") return apiError(422, changes);
+
+    const overQuota = await checkQuota(env, pubkey, pubkey, changes.content !== undefined ? [changes.content] : [],
+        changes.completed === false && todo.completed === 1 ? 1 : 0);
+    if (overQuota) return apiError(422, overQuota);
+
+    const { completed, ...fields } = changes;
+    let updated = todo;
+    if (Object.keys(fields).length > 0) {
+        updated = await updateTodo(env, todo, fields, auth.eventId);
+    }
+    if (completed !== undefined) {
+        await applyTodoAction(env, completed ? "done" : "reopen", [updated], auth.eventId);
+        updated = await findTodoById(env, updated.id);
+    }
+    return apiResponse(toTodoJson(updated), 200, { "etag": await todoETag(updated) });
+}
+
+// Admin dashboard, for ADMIN_SECRET as a bearer token or a pubkey listed in ADMIN_NPUBS signed in
+// with NIP-98 or a web view session:
+//   GET  /admin, /admin.json
+//   POST /admin/ban     pubkey, reason
+//   POST /admin/unban   pubkey
+//   POST /admin/purge   pubkey and/or text: remove todos by that author, or containing that text
+const ADMIN_STATS_DAYS = 7;
+const ADMIN_LIST_LIMIT = 20;
+
+function adminPubkeys(env: Env): string[] {
+    return parsePubkeyList(env.ADMIN_NPUBS);
+}
+
+async function authenticateAdmin(request: Request, env: Env): Promise<boolean> {
+    if (env.ADMIN_SECRET && bearerAuthentication(request, env.ADMIN_SECRET)) {
+        return true;
+    }
+    const admins = adminPubkeys(env);
+    if (admins.length === 0) return false;
+    const viewer = await authenticateViewer(request, env);
+    return viewer !== null && admins.includes(viewer);
+}
+
+type AdminStats = {
+    commands: { verb: string; count: number; errors: number }[];
+    total: number;
+    errors: number;
+    activeUsers: { day: number; week: number; month: number };
+    largestLists: { pubkey: string; channel: boolean; count: number }[];
+    banned: { pubkey: string; reason: string | null; created_at: number }[];
+};
+
+async function getAdminStats(env: Env, now: number = Math.floor(Date.now() / 1000)): Promise<AdminStats> {
+    const day = 24 * 60 * 60;
+    const [commands, active, lists, banned] = await env.nostr_todo.batch([
+        env.nostr_todo.prepare(
+            `SELECT verb, COUNT(*) AS count, SUM(error) AS errors FROM metrics WHERE created_at >= ?
+             GROUP BY verb ORDER BY count DESC`
+        ).bind(now - ADMIN_STATS_DAYS * day),
+        env.nostr_todo.prepare(
+            `SELECT COUNT(DISTINCT CASE WHEN created_at >= ? THEN pubkey END) AS day,
+                    COUNT(DISTINCT CASE WHEN created_at >= ? THEN pubkey END) AS week,
+                    COUNT(DISTINCT pubkey) AS month
+             FROM metrics WHERE created_at >= ?`
+        ).bind(now - day, now - 7 * day, now - 30 * day),
+        env.nostr_todo.prepare(
+            `SELECT pubkey, COUNT(*) AS count
+             FROM todos WHERE deleted_at IS NULL GROUP BY pubkey ORDER BY count DESC LIMIT ?`
+        ).bind(ADMIN_LIST_LIMIT),
+        env.nostr_todo.prepare(
+            'SELECT pubkey, reason, created_at FROM banned_users ORDER BY created_at DESC'
+        ),
+    ]);
+    const rows = commands.results as any[];
+    const activeRow = active.results[0] as any;
+    return {
+        commands: rows.map((row) => ({ verb: row.verb, count: row.count, errors: row.errors ?? 0 })),
+        total: rows.reduce((sum, row) => sum + row.count, 0),
+        errors: rows.reduce((sum, row) => sum + (row.errors ?? 0), 0),
+        activeUsers: { day: activeRow.day, week: activeRow.week, month: activeRow.month },
+        largestLists: (lists.results as any[]).map((row) => {
+            const channel = channelOfList(row.pubkey);
+            return { pubkey: channel ?? row.pubkey, channel: channel !== null, count: row.count };
+        }),
+        banned: banned.results as any[],
+    };
+}
+
+// Path of a list on the site
+function listPathOf(pubkey: string, channel: boolean): string {
+    return channel ? `/channel/${nip19.neventEncode({ id: pubkey })}` : `/${nip19.npubEncode(pubkey)}`;
+}
+
+function renderAdminHtml(stats: AdminStats): string {
+    const percent = (errors: number, count: number) => count === 0 ? '0%' : `${(errors / count * 100).toFixed(1)}%`;
+    const pubkeyField = (pubkey: string) => `<input type="hidden" name="pubkey" value="${pubkey}">`;
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Admin - Nostr TODO</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; max-width: 960px; margin: 0 auto; padding: 20px; color: #333; }
+        h1 { color: #667eea; }
+        h2 { margin-top: 32px; border-bottom: 2px solid #f0f0f0; padding-bottom: 8px; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #f0f0f0; }
+        td.number, th.number { text-align: right; }
+        .cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; }
+        .card { background: #f8f9fa; border-radius: 12px; padding: 16px; text-align: center; }
+        .card-value { font-size: 1.6em; font-weight: bold; color: #667eea; }
+        .card-label { font-size: 0.85em; color: #666; }
+        form { display: inline-flex; gap: 8px; flex-wrap: wrap; margin: 4px 0; }
+        input[type="text"] { padding: 6px 10px; border: 1px solid #e5e7eb; border-radius: 6px; min-width: 240px; }
+        button { background: #667eea; color: white; border: none; border-radius: 6px; padding: 6px 12px; cursor: pointer; }
+        button.danger { background: #ef4444; }
+        code { font-size: 0.85em; }
+    </style>
+</head>
+<body>
+    <h1>Nostr TODO admin</h1>
+
+    <h2>Last ${ADMIN_STATS_DAYS} days</h2>
+    <div class="cards">
+        <div class="card"><div class="card-value">${stats.total}</div><div class="card-label">Commands</div></div>
+        <div class="card"><div class="card-value">${percent(stats.errors, stats.total)}</div><div class="card-label">Error rate</div></div>
+        <div class="card"><div class="card-value">${stats.activeUsers.day} / ${stats.activeUsers.week}</div><div class="card-label">Active users (day / week)</div></div>
+        <div class="card"><div class="card-value">${stats.activeUsers.month}</div><div class="card-label">Active users (30 days)</div></div>
+    </div>
+
+    <h2>Commands</h2>
+    <table>
+        <tr><th>Verb</th><th class="number">Count</th><th class="number">Errors</th><th class="number">Error rate</th></tr>
+        ${stats.commands.map((row) => `<tr><td>${escapeHtml(row.verb)}</td><td class="number">${row.count}</td><td class="number">${row.errors}</td><td class="number">${percent(row.errors, row.count)}</td></tr>`).join('')}
+    </table>
+
+    <h2>Largest lists</h2>
+    <table>
+        <tr><th>List</th><th class="number">TODOs</th><th></th></tr>
+        ${stats.largestLists.map((row) => `<tr>
+            <td><a href="${listPathOf(row.pubkey, row.channel)}"><code>${row.channel ? 'channel ' : ''}${escapeHtml(shortNpub(row.pubkey))}</code></a></td>
+            <td class="number">${row.count}</td>
+            <td><form method="post" action="/admin/ban">${pubkeyField(row.pubkey)}<button class="danger">Ban</button></form></td>
+        </tr>`).join('')}
+    </table>
+
+    <h2>Banned</h2>
+    <form method="post" action="/admin/ban">
+        <input type="text" name="pubkey" placeholder="npub or hex" required>
+        <input type="text" name="reason" placeholder="Reason">
+        <button class="danger">Ban</button>
+    </form>
+    <table>
+        <tr><th>Pubkey</th><th>Reason</th><th>Since</th><th></th></tr>
+        ${stats.banned.map((row) => `<tr>
+            <td><code>${nip19.npubEncode(row.pubkey)}</code></td>
+            <td>${escapeHtml(row.reason || '')}</td>
+            <td>${new Date(row.created_at * 1000).toISOString().substring(0, 10)}</td>
+            <td><form method="post" action="/admin/unban">${pubkeyField(row.pubkey)}<button>Unban</button></form></td>
+        </tr>`).join('')}
+    </table>
+
+    <h2>Purge</h2>
+    <p>Permanently removes the TODOs written by a pubkey, also on shared lists, or every TODO containing a text. Both narrow it down to that author's TODOs containing the text.</p>
+    <form method="post" action="/admin/purge" onsubmit="return confirm('Purge these TODOs permanently?')">
+        <input type="text" name="pubkey" placeholder="npub or hex">
+        <input type="text" name="text" placeholder="Text">
+        <button class="danger">Purge</button>
+    </form>
+</body>
+</html>`;
+}
+
+async function handleAdmin(request: Request, env: Env, pathArray: string[]): Promise<Response> {
+    if (!await authenticateAdmin(request, env)) {
+        return notAuthenticated(request, env);
+    }
+
+    if (request.method === "GET" && !pathArray[2]) {
+        const stats = await getAdminStats(env);
+        if (pathArray[1] === "admin.json") {
+            return JSONResponse(stats);
+        }
+        return new Response(renderAdminHtml(stats), {
+            headers: {
+                'Content-Type': 'text/html; charset=utf-8',
+                'Cache-Control': 'private, no-store'
+            }
+        });
+    }
+
+    const action = pathArray[1] === "admin" ? pathArray[2] : undefined;
+    if (request.method !== "POST" || !action || !["ban", "unban", "purge"].includes(action)) {
+        return notFound(request, env);
+    }
+
+    // Forms of the dashboard post form data, scripts may post the same fields as JSON
+    let fields: [string, unknown][];
+    try {
+        if ((request.headers.get("Content-Type") || "").includes("application/json")) {
+            const json = await request.json();
+            if (typeof json !== "object" || json === null || Array.isArray(json)) throw new Error("Not an object");
+            fields = Object.entries(json);
+        } else {
+            fields = [...(await request.formData()).entries()];
+        }
+    } catch (e) {
+        return new Response('Invalid request body', { status: 400 });
+    }
+    const form: Record<string, string> = Object.fromEntries(
+        fields.filter(([, value]) => value != null).map(([key, value]) => [key, String(value)])
+    );
+    const pubkey = form.pubkey ? decodePubkey(form.pubkey.trim()) : null;
+    if (form.pubkey && !pubkey) {
+        return new Response(`Invalid pubkey: ${form.pubkey}`, { status: 400 });
+    }
+
+    let result: any;
+    if (action === "ban" || action === "unban") {
+        if (!pubkey) return new Response('pubkey is required', { status: 400 });
+        if (action === "ban") {
+            await env.nostr_todo.prepare(
+                'INSERT OR REPLACE INTO banned_users (pubkey, reason, created_at) VALUES (?, ?, ?)'
+            ).bind(pubkey, form.reason?.trim() || null, Math.floor(Date.now() / 1000)).run();
+        } else {
+            await env.nostr_todo.prepare('DELETE FROM banned_users WHERE pubkey = ?').bind(pubkey).run();
+        }
+        result = { pubkey, banned: action === "ban" };
+    } else {
+        const text = form.text?.trim();
+        if (!pubkey && !text) return new Response('pubkey or text is required', { status: 400 });
+        const conditions = [];
+        const params = [];
+        if (pubkey) {
+            conditions.push('(pubkey = ? OR created_by = ?)');
+            params.push(pubkey, pubkey);
+        }
+        if (text) {
+            conditions.push("content LIKE ? ESCAPE '\\'");
+            params.push(`%${text.replace(/[\\%_]/g, '\\$&')}%`);
+        }
+        result = { purged: await purgeTodos(env, conditions.join(' AND '), params) };
+    }
+
+    // Back to the dashboard after a form post
+    if ((request.headers.get("Accept") || "").includes("text/html")) {
+        return new Response(null, { status: 303, headers: { "Location": "/admin" } });
+    }
+    return JSONResponse(result);
+}
+
+// How often the listener Durable Object wakes up to reconnect and save its cursor
+const RELAY_LISTENER_INTERVAL_MS = 30 * 1000;
+
+// Subscribes to mentions of the bot and "todoさん" calls on the relays, handles them like
+// /mention and /call, and publishes the replies itself.
+export class RelayListenerObject extends DurableObject<Env> {
+    private listener: RelayListener | null = null;
+    private relays: string[] = [];
+
+    async fetch(_request: Request): Promise<Response> {
+        configure(this.env);
+        await this.ensureListening();
+        return JSONResponse({ listening: this.listener!.listening });
+    }
+
+    async alarm(): Promise<void> {
+        configure(this.env);
+        await this.ensureListening();
+        await this.listener!.checkpoint();
+        await this.ctx.storage.setAlarm(Date.now() + RELAY_LISTENER_INTERVAL_MS);
+    }
+
+    private async ensureListening(): Promise<void> {
+        // Subscribe again from the stored cursor when the relay command changed the relays
+        const relays = await getRelays(this.env);
+        if (this.listener && relays.join(' ') !== this.relays.join(' ')) {
+            this.listener.stop();
+            this.listener = null;
+        }
+        if (!this.listener) {
+            const env = this.env;
+            const botPubkey = getPublicKey(getSecretKey(env.TODO_NSEC));
+            this.relays = relays;
+            this.listener = new RelayListener({
+                pool,
+                relays,
+                storage: this.ctx.storage,
+                filters: (since) => relayListenerFilters(botPubkey, since),
+                handle: (event) => handleRelayEvent(event, env, botPubkey),
+            });
+        }
+        await this.listener.start();
+        if ((await this.ctx.storage.getAlarm()) === null) {
+            await this.ctx.storage.setAlarm(Date.now() + RELAY_LISTENER_INTERVAL_MS);
+        }
+    }
+}
+
+// What the relay listener subscribes to
+function relayListenerFilters(botPubkey: string, since: number): Filter[][] {
+    return [
+        [
+            { kinds: [1, 42, 4, 7], '#p': [botPubkey], since },
+            // Gift wraps are dated up to two days in the past
+            { kinds: [1059], '#p': [botPubkey], since: since - MAX_GIFT_WRAP_AGE_SECONDS },
+        ],
+        // Calls do not tag the bot. A NIP-50 search for the call name finds them without
+        // subscribing to every note; handleRelayEvent still checks the pattern. Relays without
+        // NIP-50 may close this REQ, which leaves the mentions above alone.
+        [{ kinds: [1], search: config.callName, since }],
+    ];
+}
+
+// Route an event from the relay listener and return the reply to publish
+async function handleRelayEvent(event: Event, env: Env, botPubkey: string): Promise<Event | null> {
+    if (event.pubkey === botPubkey) return null;
+
+    const mentioned = event.tags.some((tag) => tag[0] === 'p' && tag[1] === botPubkey);
+    let response: Response;
+    if (mentioned && [1, 42, 4, 7, 1059].includes(event.kind)) {
+        response = await handleEventOnce(event, env, () => dispatchMention(event, env), MAX_BACKFILL_SECONDS);
+    } else if (event.kind === 1 && callPattern().test(cleanContent(event.content))) {
+        response = await handleEventOnce(event, env, () => handleCallDirect(event, env), MAX_BACKFILL_SECONDS);
+    } else {
+        return null;
+    }
+
+    if (!response.ok) return null;
+    const body = await response.text();
+    return body ? JSON.parse(body) : null;
+}
+
+async function startRelayListener(env: Env): Promise<void> {
+    if (!env.RELAY_LISTENER || env.ENABLE_RELAY_LISTENER !== 'true') return;
+    const stub = env.RELAY_LISTENER.get(env.RELAY_LISTENER.idFromName('default'));
+    await stub.fetch('https://relay-listener/start');
+}
+
+async function sendDueReminders(env: Env): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    const { results } = await env.nostr_todo.prepare(
+        `SELECT ${TODO_COLUMNS} FROM todos
+         WHERE completed = 0 AND deleted_at IS NULL AND due_at IS NOT NULL AND due_at <= ? AND reminded_at IS NULL
+         ORDER BY due_at ASC LIMIT 50`
+    ).bind(now + REMINDER_LEAD_SECONDS).all();
+
+    const relays = await getRelays(env);
+    const settings = new Map<string, UserSettings>();
+    for (const row of results as any[]) {
+        // An assigned todo reminds its assignee. A todo of a channel's shared list is posted to the channel.
+        const channel = channelOfList(row.pubkey);
+        const recipient: string | null = row.assignee ?? (channel ? null : row.pubkey);
+        const key = recipient ?? row.pubkey;
+        if (!settings.has(key)) settings.set(key, await getUserSettings(env, key));
+        const { timezone, language } = settings.get(key)!;
+        const messages = MESSAGES[language ?? DEFAULT_LANGUAGE];
+        // Reminders are not replies to a mention, so sign them as new notes addressed to the owner
+        const origin = {
+            id: '',
+            kind: channel ? 42 : 1,
+            pubkey: row.pubkey,
+            created_at: now - 1,
+            tags: channel ? [['e', channel, '', 'root']] : [],
+            content: '',
+            sig: '',
+        } as Event;
+        const message = `⏰ ${isOverdue(row, now) ? messages.overdue : messages.reminder}: ${todoLabel(row)}. ${row.content}\n${messages.show.due}: ${formatDueDate(row.due_at, timezone)}`;
+        const note = createNoteWithTags(env.TODO_NSEC, origin, message, recipient ? [['p', recipient]] : []);
+        try {
+            await Promise.any(pool.publish(relays, note));
+        } catch (e) {
+            console.error('Failed to publish reminder:', e);
+            continue;
+        }
+        await env.nostr_todo.prepare(
+            'UPDATE todos SET reminded_at = ? WHERE id = ?'
+        ).bind(now, row.id).run();
+    }
+}
+
 export default {
+    async scheduled(
+        _controller: ScheduledController,
+        env: Env,
+        ctx: ExecutionContext,
+    ): Promise<void> {
+        configure(env);
+        ctx.waitUntil(sendDueReminders(env));
+        ctx.waitUntil(purgeProcessedEvents(env));
+        ctx.waitUntil(purgeSessions(env));
+        ctx.waitUntil(purgeMetrics(env));
+        ctx.waitUntil(purgeRateLimits(env));
+        ctx.waitUntil(syncDeletions(env));
+        ctx.waitUntil(startRelayListener(env));
+    },
+
     async fetch(
         request: Request,
         env: Env,
+        ctx: ExecutionContext,
     ): Promise<Response> {
-        const { protocol, pathname } = new URL(request.url);
+        configure(env);
+        const { protocol, pathname, searchParams } = new URL(request.url);
         const pathArray = pathname.split("/");
 
         if (
@@ -762,17 +5133,28 @@ export default {
 
         console.log(`${request.method}: ${request.url} `);
 
+        if (pathArray[1] === "api") {
+            return handleApi(request, env, pathArray);
+        }
+
+        if (pathArray[1] === "admin" || pathArray[1] === "admin.json") {
+            return handleAdmin(request, env, pathArray);
+        }
+
         if (request.method === "GET") {
             // Top page - check before any other handler
             if (pathname === "/" || pathname === "/index.html" || pathname === "") {
-                const recentUsers = await getRecentUsers(env, 8);
+                const recentUsers = await getRecentUsers(env, ctx, 8);
                 const indexHtml = await env.ASSETS.fetch(new Request(new URL('/index.html.template', request.url)));
                 let htmlContent = await indexHtml.text();
 
                 if (recentUsers.length > 0) {
+                    // Signed-in viewers see the heading in their own language
+                    const viewer = await authenticateViewer(request, env);
+                    const language = (viewer ? (await getUserSettings(env, viewer)).language : null) ?? DEFAULT_WEB_LANGUAGE;
                     const avatarsHtml = `
             <div class="recent-users">
-                <div class="recent-users-title">最近のユーザー</div>
+                <div class="recent-users-title">${MESSAGES[language].web.recentUsers}</div>
                 <div class="avatar-list">
                     ${recentUsers.map(u => `<a href="/${u.npub}" class="avatar-link" title="${escapeHtml(u.profile.name)}">${u.profile.picture ? `<img src="${escapeHtml(u.profile.picture)}" alt="${escapeHtml(u.profile.name)}" class="avatar-img" onerror="this.style.display='none'">` : '<div class="avatar-placeholder"></div>'}</a>`).join('')}
                 </div>
@@ -793,14 +5175,27 @@ export default {
                 });
             }
 
-            if (pathArray[1] && pathArray[1].startsWith("npub")) {
-                const format = pathArray[1].endsWith('.json') ? 'json' : 'html';
-                const npub = pathArray[1].replace(/\.json$/, '');
-                return handleWebView(npub, env, format);
+            // /npub… for a user's list, /channel/nevent… for a channel's shared list
+            const listPath = pathArray[1] === "channel" && pathArray[2] && /^(nevent|note)1/.test(pathArray[2])
+                ? pathArray[2]
+                : pathArray[1] && pathArray[1].startsWith("npub") ? pathArray[1] : null;
+            if (listPath) {
+                const m = listPath.match(/^(.*?)(?:\.(json|ics|rss|atom|txt))?$/)!;
+                const format = (m[2] || 'html') as WebViewFormat;
+                // Private lists are shown to their owner signed in with NIP-98 or a session,
+                // who can also edit the list in the page
+                const viewer = await authenticateViewer(request, env);
+                return handleWebView(m[1], env, ctx, format, searchParams, viewer);
             }
 
             return env.ASSETS.fetch(request);
         }
+        if (request.method === "POST" && (pathArray[1] === "mention" || pathArray[1] === "call")) {
+            if (env.WEBHOOK_SECRET && !bearerAuthentication(request, env.WEBHOOK_SECRET)) {
+                return notAuthenticated(request, env);
+            }
+        }
+
         if (request.method === "POST" && pathArray[1] === "mention") {
             return handleMention(request, env);
         }
@@ -812,3 +5207,12 @@ export default {
         return unsupportedMethod(request, env);
     },
 };
+
+// Exported for the unit tests in test/
+export {
+    parseDueDate, parseApiChanges, authenticateHttpAuth, getChannelId, registerChannel, channelListKey, getReferencedEvent, removeNostrRef,
+    relayListenerFilters, handleRelayEvent, parseImport, parseImportJson, parseTodoTxtLine, isImportUrl, importTodos,
+    renderICalendar, renderTodoTxt, renderRss, renderAtom, parseRepeatRule, insertTodo, findTodoById, scheduleNextOccurrence,
+    parseIdList, renumberTodos, handleDeletion, handleApi, handleAdmin, handleCommand, parseSearchQuery, buildSearchSql,
+    handleReaction, handleEventOnce, forgetUser,
+};
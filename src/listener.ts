@@ -0,0 +1,161 @@
+"use strict";
+
+import type { Event, Filter } from "nostr-tools";
+
+// The part of SimplePool the listener uses, so that tests can pass a local relay stand-in
+export interface ListenerPool {
+    subscribeMap(
+        requests: { url: string; filter: Filter }[],
+        params: {
+            onevent?: (event: Event) => void;
+            oneose?: () => void;
+            onclose?: (reasons: string[]) => void;
+        },
+    ): { close: (reason?: string) => void };
+    publish(relays: string[], event: Event): Promise<string>[];
+}
+
+// Durable Object storage satisfies this
+export interface CursorStorage {
+    get<T>(key: string): Promise<T | undefined>;
+    put<T>(key: string, value: T): Promise<void>;
+}
+
+export type RelayListenerOptions = {
+    pool: ListenerPool;
+    relays: string[];
+    storage: CursorStorage;
+    // Filter groups to subscribe with, given the unix time to resume from. Each group is sent to each
+    // relay as a REQ of its own, so a relay that refuses one group still serves the others.
+    filters: (since: number) => Filter[][];
+    // Handle a received event and return a signed reply to publish, or null
+    handle: (event: Event) => Promise<Event | null>;
+    now?: () => number;
+};
+
+const CURSOR_KEY = "since";
+
+// Resume this far before the stored cursor so events that reached relays out of order are not missed
+const CURSOR_OVERLAP_SECONDS = 60;
+
+// Never backfill further than this, however long the listener was down
+export const MAX_BACKFILL_SECONDS = 24 * 60 * 60;
+
+// Number of recent event ids remembered to drop the same event coming from several relays
+const SEEN_EVENTS_LIMIT = 1000;
+
+type Subscription = { close: (reason?: string) => void };
+
+export class RelayListener {
+    private options: RelayListenerOptions;
+    // Open subscriptions, keyed by filter group and relay
+    private subscriptions = new Map<string, Subscription>();
+    // Subscriptions that have not sent EOSE yet. Their relays are still backfilling stored events,
+    // newest first, so the cursor must stay where it was.
+    private backfilling = new Set<string>();
+    private cursor = 0;
+    private queue: Promise<void> = Promise.resolve();
+    private seen = new Set<string>();
+
+    constructor(options: RelayListenerOptions) {
+        this.options = options;
+    }
+
+    get listening(): boolean {
+        return this.subscriptions.size > 0;
+    }
+
+    private get backfilled(): boolean {
+        return this.subscriptions.size > 0 && this.backfilling.size === 0;
+    }
+
+    private now(): number {
+        return this.options.now ? this.options.now() : Math.floor(Date.now() / 1000);
+    }
+
+    // Subscribe from the stored cursor wherever a relay has no open subscription for a filter group.
+    // Calling it periodically resubscribes to each relay that dropped or closed one.
+    async start(): Promise<void> {
+        const { pool, relays, filters } = this.options;
+        const now = this.now();
+        const stored = await this.options.storage.get<number>(CURSOR_KEY);
+        this.cursor = Math.max(this.cursor, stored ?? now);
+        const since = Math.max(this.cursor - CURSOR_OVERLAP_SECONDS, now - MAX_BACKFILL_SECONDS);
+
+        filters(since).forEach((group, index) => {
+            for (const url of relays) {
+                const key = `${index} ${url}`;
+                if (this.subscriptions.has(key)) continue;
+                this.backfilling.add(key);
+                const subscription = pool.subscribeMap(group.map((filter) => ({ url, filter })), {
+                    onevent: (event) => {
+                        this.queue = this.queue.then(() => this.process(event));
+                    },
+                    oneose: () => {
+                        // Every stored event up to the start of the subscription has been received, and
+                        // is handled once the queue gets here
+                        this.queue = this.queue.then(async () => {
+                            if (this.subscriptions.get(key) !== subscription) return;
+                            this.backfilling.delete(key);
+                            if (this.backfilled) await this.saveCursor(now);
+                        });
+                    },
+                    onclose: (reasons) => {
+                        console.log(`Relay subscription closed: ${url}`, reasons);
+                        if (this.subscriptions.get(key) !== subscription) return;
+                        this.subscriptions.delete(key);
+                        this.backfilling.delete(key);
+                    },
+                });
+                this.subscriptions.set(key, subscription);
+            }
+        });
+    }
+
+    stop(): void {
+        const subscriptions = [...this.subscriptions.values()];
+        this.subscriptions.clear();
+        this.backfilling.clear();
+        for (const subscription of subscriptions) subscription.close();
+    }
+
+    // Resolve once every event received so far has been handled
+    async idle(): Promise<void> {
+        await this.queue;
+    }
+
+    // Move the cursor up to now when nothing arrived, so that a restart does not backfill
+    // a quiet period again. Does nothing before EOSE, while older events are still arriving.
+    async checkpoint(): Promise<void> {
+        await this.idle();
+        if (!this.backfilled) return;
+        await this.saveCursor(this.now() - CURSOR_OVERLAP_SECONDS);
+    }
+
+    private async saveCursor(cursor: number): Promise<void> {
+        if (cursor <= this.cursor) return;
+        this.cursor = cursor;
+        await this.options.storage.put(CURSOR_KEY, cursor);
+    }
+
+    private async process(event: Event): Promise<void> {
+        if (this.seen.has(event.id)) return;
+        this.seen.add(event.id);
+        if (this.seen.size > SEEN_EVENTS_LIMIT) {
+            this.seen.delete(this.seen.values().next().value!);
+        }
+
+        try {
+            const reply = await this.options.handle(event);
+            if (reply) {
+                await Promise.any(this.options.pool.publish(this.options.relays, reply));
+            }
+        } catch (e) {
+            console.error('Failed to handle relay event:', e);
+        }
+        // Gift wraps carry a randomized past created_at and must not move the cursor back
+        if (this.backfilled && event.created_at <= this.now()) {
+            await this.saveCursor(event.created_at);
+        }
+    }
+}
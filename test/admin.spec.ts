@@ -0,0 +1,28 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { handleAdmin } from '../src/index';
+
+describe('handleAdmin', () => {
+	const adminEnv = { ...env, ADMIN_SECRET: 'secret' };
+	const path = ['', 'admin', 'ban'];
+
+	function post(body: string, contentType: string): Request {
+		return new Request('https://example.com/admin/ban', {
+			method: 'POST',
+			headers: { Authorization: 'Bearer secret', 'Content-Type': contentType },
+			body,
+		});
+	}
+
+	it('answers a malformed body with 400', async () => {
+		expect((await handleAdmin(post('{', 'application/json'), adminEnv, path)).status).toBe(400);
+		expect((await handleAdmin(post('null', 'application/json'), adminEnv, path)).status).toBe(400);
+		expect((await handleAdmin(post('pubkey=x', 'text/plain'), adminEnv, path)).status).toBe(400);
+	});
+
+	it('bans a pubkey posted as JSON', async () => {
+		const pubkey = 'b'.repeat(64);
+		const response = await handleAdmin(post(JSON.stringify({ pubkey, reason: 'spam' }), 'application/json'), adminEnv, path);
+		expect(await response.json()).toEqual({ pubkey, banned: true });
+	});
+});
@@ -0,0 +1,116 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { bytesToHex } from '@noble/hashes/utils';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools';
+import { authenticateHttpAuth, handleApi, insertTodo, parseApiChanges } from '../src/index';
+
+describe('parseApiChanges', () => {
+	it('accepts priority names and numbers', () => {
+		expect(parseApiChanges({ priority: 'High' })).toEqual({ priority: 1 });
+		expect(parseApiChanges({ priority: 3 })).toEqual({ priority: 3 });
+		expect(parseApiChanges({ priority: null })).toEqual({ priority: null });
+	});
+
+	it('rejects unknown priorities, including names on the object prototype', () => {
+		expect(parseApiChanges({ priority: 'urgent' })).toBe('priority must be high, medium, low or null');
+		expect(parseApiChanges({ priority: 'constructor' })).toBe('priority must be high, medium, low or null');
+		expect(parseApiChanges({ priority: '__proto__' })).toBe('priority must be high, medium, low or null');
+	});
+
+	it('trims content and normalizes tags', () => {
+		expect(parseApiChanges({ content: '  milk ', tags: ['#Work', 'work', 'home'] })).toEqual({ content: 'milk', tags: ['work', 'home'] });
+	});
+
+	it('rejects invalid values', () => {
+		expect(parseApiChanges([])).toBe('Body must be a JSON object');
+		expect(parseApiChanges({ content: ' ' })).toBe('content must be a non-empty string');
+		expect(parseApiChanges({ tags: ['two words'] })).toBe('tags must be an array of strings without spaces');
+		expect(parseApiChanges({ completed: 'yes' })).toBe('completed must be a boolean');
+		expect(parseApiChanges({ due: {} })).toBe('due must be unix seconds, a date string or null');
+	});
+
+	it('parses due dates in the time zone', () => {
+		expect(parseApiChanges({ due: '2025-01-02 18:00' }, 'UTC')).toEqual({ due_at: Date.UTC(2025, 0, 2, 18) / 1000 });
+		expect(parseApiChanges({ due: 1700000000 })).toEqual({ due_at: 1700000000 });
+	});
+});
+
+describe('authenticateHttpAuth', () => {
+	const sk = generateSecretKey();
+	const url = 'https://example.com/api/todos';
+
+	async function sha256(text: string): Promise<string> {
+		return bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))));
+	}
+
+	function request(method: string, tags: string[][], kind = 27235, created_at = Math.floor(Date.now() / 1000), u = url): Request {
+		const event = finalizeEvent({ kind, created_at, tags: [['u', u], ['method', method], ...tags], content: '' }, sk);
+		return new Request(url, { method, headers: { Authorization: `Nostr ${btoa(JSON.stringify(event))}` } });
+	}
+
+	it('accepts a signed event for the URL and method', async () => {
+		const event = await authenticateHttpAuth(request('GET', []), env, '');
+		expect(event.kind).toBe(27235);
+	});
+
+	it('rejects a missing header, wrong kind, stale event, other URL or method', async () => {
+		const now = Math.floor(Date.now() / 1000);
+		await expect(authenticateHttpAuth(new Request(url), env, '')).rejects.toThrow('Missing Nostr authorization');
+		await expect(authenticateHttpAuth(request('GET', [], 1), env, '')).rejects.toThrow('Invalid event kind');
+		await expect(authenticateHttpAuth(request('GET', [], 27235, now - 120), env, '')).rejects.toThrow('Authorization event expired');
+		await expect(authenticateHttpAuth(request('GET', [], 27235, now, `${url}/1`), env, '')).rejects.toThrow('URL does not match');
+		const other = request('GET', []);
+		await expect(authenticateHttpAuth(new Request(url, { method: 'POST', headers: other.headers }), env, '')).rejects.toThrow('Method does not match');
+	});
+
+	it('requires a matching payload tag when there is a body', async () => {
+		const body = JSON.stringify({ content: 'milk' });
+		await expect(authenticateHttpAuth(request('POST', []), env, body)).rejects.toThrow('Missing payload tag');
+		await expect(authenticateHttpAuth(request('POST', [['payload', await sha256('{}')]]), env, body)).rejects.toThrow('Payload does not match');
+		const event = await authenticateHttpAuth(request('POST', [['payload', await sha256(body)]]), env, body);
+		expect(event.kind).toBe(27235);
+	});
+
+	it('rejects an authorization event that was already used', async () => {
+		const first = request('GET', []);
+		await authenticateHttpAuth(first, env, '');
+		await expect(authenticateHttpAuth(new Request(url, { headers: first.headers }), env, '')).rejects.toThrow('Authorization event already used');
+	});
+});
+
+describe('handleApi', () => {
+	const url = 'https://example.com/api/todos';
+
+	function get(sk: Uint8Array, query = ''): Promise<Response> {
+		const event = finalizeEvent({ kind: 27235, created_at: Math.floor(Date.now() / 1000), tags: [['u', url + query], ['method', 'GET']], content: '' }, sk);
+		return handleApi(new Request(url + query, { headers: { Authorization: `Nostr ${btoa(JSON.stringify(event))}` } }), env, ['', 'api', 'todos']);
+	}
+
+	it('rejects a completed filter other than true or false', async () => {
+		const sk = generateSecretKey();
+		expect((await get(sk, '?completed=yes')).status).toBe(400);
+		expect((await get(sk, '?completed=false')).status).toBe(200);
+	});
+
+	it('lists todos in the saved sort order', async () => {
+		const sk = generateSecretKey();
+		const pubkey = getPublicKey(sk);
+		const older = await insertTodo(env, pubkey, { content: 'low', due_at: null, priority: 3, tags: [] }, null);
+		await insertTodo(env, pubkey, { content: 'high', due_at: null, priority: 1, tags: [] }, null);
+		await env.nostr_todo.prepare('UPDATE todos SET created_at = created_at - 60 WHERE id = ?').bind(older.id).run();
+		// A different query for each request, as an authorization event can only be used once
+		const contents = async (query: string) => ((await (await get(sk, query)).json()) as any).todos.map((todo: any) => todo.content);
+		expect(await contents('')).toEqual(['high', 'low']);
+		await env.nostr_todo.prepare("INSERT INTO user_settings (pubkey, sort, updated_at) VALUES (?, 'created', 0)").bind(pubkey).run();
+		expect(await contents('?offset=0')).toEqual(['low', 'high']);
+	});
+
+	it('refuses banned users', async () => {
+		const sk = generateSecretKey();
+		const url = 'https://example.com/api/todos';
+		const event = finalizeEvent({ kind: 27235, created_at: Math.floor(Date.now() / 1000), tags: [['u', url], ['method', 'GET']], content: '' }, sk);
+		await env.nostr_todo.prepare('INSERT INTO banned_users (pubkey, reason, created_at) VALUES (?, NULL, 0)').bind(event.pubkey).run();
+		const response = await handleApi(new Request(url, { headers: { Authorization: `Nostr ${btoa(JSON.stringify(event))}` } }), env, ['', 'api', 'todos']);
+		expect(response.status).toBe(403);
+	});
+});
@@ -0,0 +1,41 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools';
+import { channelListKey, getChannelId, registerChannel } from '../src/index';
+
+const sk = generateSecretKey();
+const channel = 'a'.repeat(64);
+const message = (tags: string[][]) => finalizeEvent({ kind: 42, created_at: 1700000000, tags, content: 'team list' }, sk);
+
+describe('getChannelId', () => {
+	it('takes the root e tag of a kind 42 message', () => {
+		expect(getChannelId(message([['e', 'b'.repeat(64), '', 'reply'], ['e', channel, '', 'root']]))).toBe(channel);
+		expect(getChannelId(message([['e', channel]]))).toBe(channel);
+	});
+
+	it('ignores other kinds and malformed ids', () => {
+		expect(getChannelId(finalizeEvent({ kind: 1, created_at: 1700000000, tags: [['e', channel, '', 'root']], content: '' }, sk))).toBeNull();
+		expect(getChannelId(message([['e', 'not-an-id', '', 'root']]))).toBeNull();
+		expect(getChannelId(message([]))).toBeNull();
+	});
+});
+
+describe('registerChannel', () => {
+	it('accepts a registered channel', async () => {
+		await env.nostr_todo.prepare('INSERT INTO channels (id, created_at) VALUES (?, ?)').bind(channel, 1700000000).run();
+		expect(await registerChannel(env, channel)).toBe(true);
+	});
+
+	it('refuses the pubkey of a known user', async () => {
+		const victim = getPublicKey(generateSecretKey());
+		await env.nostr_todo.prepare(
+			'INSERT INTO todos (pubkey, user_id, content, completed, created_at, created_by) VALUES (?, 1, ?, 0, ?, ?)'
+		).bind(victim, 'milk', 1700000000, victim).run();
+		expect(await registerChannel(env, victim)).toBe(false);
+		expect(await env.nostr_todo.prepare('SELECT 1 FROM channels WHERE id = ?').bind(victim).first()).toBeNull();
+	});
+
+	it('keeps channel lists apart from user lists', () => {
+		expect(channelListKey(channel)).toBe(`channel:${channel}`);
+	});
+});
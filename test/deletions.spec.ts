@@ -0,0 +1,57 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { bytesToHex } from '@noble/hashes/utils';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools';
+import { findTodoById, forgetUser, handleDeletion, handleEventOnce, insertTodo } from '../src/index';
+
+const secret = generateSecretKey();
+const author = getPublicKey(secret);
+
+function deletion(eventIds: string[]) {
+	return finalizeEvent({ kind: 5, created_at: Math.floor(Date.now() / 1000), tags: eventIds.map((id) => ['e', id]), content: '' }, secret);
+}
+
+function todo(content: string, parent_id?: number, event_id?: string) {
+	return insertTodo(env, author, { content, due_at: null, priority: null, tags: [], parent_id, event_id }, null);
+}
+
+describe('handleDeletion', () => {
+	it('removes the todo created by the deleted note with every level of subtasks', async () => {
+		const eventId = bytesToHex(generateSecretKey());
+		const parent = await todo('trip', undefined, eventId);
+		const child = await todo('packing', parent.id);
+		const grandchild = await todo('socks', child.id);
+		const other = await todo('unrelated', undefined, bytesToHex(generateSecretKey()));
+
+		await handleDeletion(deletion([eventId]), env);
+
+		for (const id of [parent.id, child.id, grandchild.id]) {
+			expect(await findTodoById(env, id)).toBeNull();
+		}
+		expect(await env.nostr_todo.prepare('SELECT COUNT(*) AS n FROM todo_history WHERE todo_id IN (?, ?, ?)')
+			.bind(parent.id, child.id, grandchild.id).first('n')).toBe(0);
+		expect(await findTodoById(env, other.id)).not.toBeNull();
+	});
+
+	it('leaves todos alone when no deleted note made one', async () => {
+		const kept = await todo('keep', undefined, bytesToHex(generateSecretKey()));
+		await handleDeletion(deletion([bytesToHex(generateSecretKey())]), env);
+		expect(await findTodoById(env, kept.id)).not.toBeNull();
+	});
+});
+
+describe('forgetUser', () => {
+	it('removes the todos and the stored replies, but still ignores re-delivered events', async () => {
+		const secret = generateSecretKey();
+		const pubkey = getPublicKey(secret);
+		const kept = await insertTodo(env, pubkey, { content: 'secret plans', due_at: null, priority: null, tags: [] }, null);
+		const mention = finalizeEvent({ kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [], content: 'list' }, secret);
+		const reply = () => Promise.resolve(new Response(JSON.stringify({ content: '1. secret plans' })));
+		await handleEventOnce(mention, env, reply);
+
+		expect(await forgetUser(env, pubkey)).toBe(1);
+		expect(await findTodoById(env, kept.id)).toBeNull();
+		const again = await handleEventOnce(mention, env, reply);
+		expect(await again.text()).toBe('null');
+	});
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { parseDueDate } from '../src/index';
+
+// Friday 2025-01-10 12:00 in Tokyo
+const now = Date.UTC(2025, 0, 10, 3) / 1000;
+const tokyo = (month: number, day: number, hour = 9, minute = 0, year = 2025) => Date.UTC(year, month - 1, day, hour - 9, minute) / 1000;
+const parse = (text: string) => parseDueDate(text, now, 'Asia/Tokyo');
+
+describe('parseDueDate', () => {
+	it('parses relative days', () => {
+		expect(parse('明日 牛乳を買う')).toEqual({ dueAt: tokyo(1, 11), rest: '牛乳を買う' });
+		expect(parse('today call')).toEqual({ dueAt: tokyo(1, 10), rest: 'call' });
+		expect(parse('明後日')).toEqual({ dueAt: tokyo(1, 12), rest: '' });
+		expect(parse('in 3 days report')?.dueAt).toBe(tokyo(1, 13));
+		expect(parse('3日後 report')?.dueAt).toBe(tokyo(1, 13));
+	});
+
+	it('parses weekdays', () => {
+		expect(parse('来週月曜 定例')?.dueAt).toBe(tokyo(1, 13));
+		expect(parse('金曜 定例')?.dueAt).toBe(tokyo(1, 10));
+		expect(parse('next friday review')?.dueAt).toBe(tokyo(1, 17));
+		expect(parse('on monday review')?.dueAt).toBe(tokyo(1, 13));
+	});
+
+	it('parses calendar dates, rolling past ones into next year', () => {
+		expect(parse('2025-03-01 tax')?.dueAt).toBe(tokyo(3, 1));
+		expect(parse('10月25日 report')?.dueAt).toBe(tokyo(10, 25));
+		expect(parse('1月5日 report')?.dueAt).toBe(tokyo(1, 5, 9, 0, 2026));
+	});
+
+	it('parses times, alone or after a date', () => {
+		expect(parse('tomorrow 9時半 call')?.dueAt).toBe(tokyo(1, 11, 9, 30));
+		expect(parse('明日 18時30分')?.dueAt).toBe(tokyo(1, 11, 18, 30));
+		expect(parse('18:00 call')?.dueAt).toBe(tokyo(1, 10, 18));
+		// A time that has already passed today is tomorrow
+		expect(parse('8:00 call')?.dueAt).toBe(tokyo(1, 11, 8));
+	});
+
+	it('needs a time or a keyword for the slash form', () => {
+		expect(parse('1/2 cup flour')).toBeNull();
+		expect(parse('10/25 18:00 レポート提出')).toEqual({ dueAt: tokyo(10, 25, 18), rest: 'レポート提出' });
+		expect(parse('due 10/25 レポート提出')).toEqual({ dueAt: tokyo(10, 25), rest: 'レポート提出' });
+		expect(parse('on 2/1 rent')?.dueAt).toBe(tokyo(2, 1));
+	});
+
+	it('rejects dates that do not exist', () => {
+		expect(parse('due 2/31 rent')).toBeNull();
+		expect(parse('2025-02-29 rent')).toBeNull();
+		expect(parse('2028-02-29 rent')?.dueAt).toBe(tokyo(2, 29, 9, 0, 2028));
+		expect(parse('13月1日 rent')).toBeNull();
+		expect(parse('明日 25:00')).toBeNull();
+	});
+
+	it('returns null for text without a date', () => {
+		expect(parse('buy milk')).toBeNull();
+		expect(parse('tomorrowland tickets')).toBeNull();
+	});
+});
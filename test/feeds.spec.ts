@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { renderAtom, renderICalendar, renderRss, renderTodoTxt } from '../src/index';
+
+const created = Date.UTC(2025, 0, 1, 12) / 1000;
+const todo = (fields: any) => ({
+	id: 1, user_id: 1, content: 'water the plants', completed: 0, completed_at: null, created_at: created,
+	due_at: null, priority: null, tags: null, repeat_rule: null, parent_id: null, ...fields,
+});
+
+describe('renderICalendar', () => {
+	it('starts a recurring todo at its due date', () => {
+		const due = Date.UTC(2025, 0, 6, 9) / 1000;
+		const lines = renderICalendar([todo({ due_at: due, repeat_rule: JSON.stringify({ unit: 'week', interval: 1 }) })], 'alice', 'https://example.com/npub1')
+			.split('\r\n');
+		expect(lines).toContain('DTSTART:20250106T090000Z');
+		expect(lines).toContain('DUE:20250106T090000Z');
+		expect(lines.some((line) => line.startsWith('RRULE:'))).toBe(true);
+	});
+});
+
+describe('renderTodoTxt', () => {
+	it('writes the completion date before the creation date', () => {
+		const completed = Date.UTC(2025, 0, 3, 12) / 1000;
+		expect(renderTodoTxt([todo({ completed: 1, completed_at: completed })], 'UTC')).toBe('x 2025-01-03 2025-01-01 water the plants id:1\n');
+	});
+
+	it('leaves out the dates of a completed todo without a completion time', () => {
+		expect(renderTodoTxt([todo({ completed: 1 })], 'UTC')).toBe('x water the plants id:1\n');
+	});
+
+	it('writes priority, tags and due date of an open todo', () => {
+		const due = Date.UTC(2025, 0, 5, 9) / 1000;
+		expect(renderTodoTxt([todo({ priority: 1, tags: 'home garden', due_at: due })], 'UTC'))
+			.toBe('(A) 2025-01-01 water the plants +home +garden due:2025-01-05 id:1\n');
+	});
+});
+
+describe('renderRss and renderAtom', () => {
+	const items = [
+		{ todo: todo({ completed: 1, completed_at: created + 60 }), kind: 'done' as const, time: created + 60 },
+		{ todo: todo({}), kind: 'added' as const, time: created },
+	];
+
+	it('titles the items in the owner\'s language', () => {
+		const rss = renderRss(items, 'alice', 'https://example.com/npub1', 'en');
+		expect(rss).toContain('<title>✅ Done: ');
+		expect(rss).toContain('<title>📝 Added: ');
+		const atom = renderAtom(items, 'alice', 'https://example.com/npub1', 'ja');
+		expect(atom).toContain('<title>✅ 完了: ');
+		expect(atom).toContain('<title>📝 追加: ');
+	});
+});
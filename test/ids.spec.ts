@@ -0,0 +1,46 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { insertTodo, parseIdList, renumberTodos } from '../src/index';
+
+describe('parseIdList', () => {
+	it('parses lists and ranges of todos and subtasks', () => {
+		expect(parseIdList('1,3 5-7')).toEqual([1, 3, 5, 6, 7].map((userId) => ({ userId, position: null })));
+		expect(parseIdList('3.1-3.3')).toEqual([1, 2, 3].map((position) => ({ userId: 3, position })));
+		expect(parseIdList('3.2-4')).toEqual([{ userId: 3, position: 2 }, { userId: 3, position: 3 }, { userId: 3, position: 4 }]);
+	});
+
+	it('drops duplicates', () => {
+		expect(parseIdList('2, 1-3')).toEqual([2, 1, 3].map((userId) => ({ userId, position: null })));
+	});
+
+	it('rejects malformed, reversed, cross-parent and oversized lists', () => {
+		expect(parseIdList('1,a')).toBeNull();
+		expect(parseIdList('5-3')).toBeNull();
+		expect(parseIdList('3.1-4.2')).toBeNull();
+		expect(parseIdList('1-3.2')).toBeNull();
+		expect(parseIdList('1-51')).toBeNull();
+		expect(parseIdList('1-50')).toHaveLength(50);
+	});
+});
+
+describe('renumberTodos', () => {
+	const pubkey = 'a'.repeat(64);
+
+	it('renumbers the history with the todos and clears it for deleted ones', async () => {
+		const todos = [];
+		for (const content of ['one', 'two', 'three']) {
+			todos.push(await insertTodo(env, pubkey, { content, due_at: null, priority: null, tags: [] }, null));
+		}
+		await env.nostr_todo.prepare('UPDATE todos SET deleted_at = 1 WHERE id = ?').bind(todos[0].id).run();
+
+		expect(await renumberTodos(env, pubkey)).toBe(2);
+		const { results } = await env.nostr_todo.prepare(
+			'SELECT t.user_id, h.user_id AS history_user_id FROM todos t JOIN todo_history h ON h.todo_id = t.id WHERE t.pubkey = ? ORDER BY t.id'
+		).bind(pubkey).all();
+		expect(results).toEqual([
+			{ user_id: null, history_user_id: null },
+			{ user_id: 1, history_user_id: 1 },
+			{ user_id: 2, history_user_id: 2 },
+		]);
+	});
+});
@@ -0,0 +1,94 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { importTodos, isImportUrl, parseImport, parseImportJson, parseTodoTxtLine } from '../src/index';
+
+describe('parseTodoTxtLine', () => {
+	it('reads completion, priority, dates, projects and due dates', () => {
+		expect(parseTodoTxtLine('x 2025-01-03 2025-01-01 (B) write notes +work due:2025-01-05', 'UTC')).toEqual({
+			content: 'write notes',
+			completed: true,
+			completed_at: Date.UTC(2025, 0, 3) / 1000,
+			created_at: Date.UTC(2025, 0, 1) / 1000,
+			due_at: Date.UTC(2025, 0, 5, 9) / 1000,
+			priority: 2,
+			tags: ['work'],
+			subtasks: [],
+		});
+	});
+
+	it('takes a single date after x as the creation date', () => {
+		const item = parseTodoTxtLine('x 2025-01-01 milk', 'UTC');
+		expect(item.completed_at).toBeNull();
+		expect(item.created_at).toBe(Date.UTC(2025, 0, 1) / 1000);
+	});
+});
+
+describe('parseImportJson', () => {
+	it('reads the web view JSON with subtasks', () => {
+		const items = parseImportJson({ todos: { incomplete: [{ content: ' trip ', priority: 'high', subtasks: [{ content: 'tickets', completed: true }] }], completed: [] } });
+		expect(items).toHaveLength(1);
+		expect(items[0]).toMatchObject({ content: 'trip', priority: 1, subtasks: [{ content: 'tickets', completed: true }] });
+	});
+
+	it('drops items without content and unknown priorities', () => {
+		expect(parseImportJson([{ content: '' }, { content: 'milk', priority: 'toString' }, { title: 'eggs' }])).toMatchObject([{ content: 'milk', priority: null }]);
+	});
+});
+
+describe('parseImport', () => {
+	it('reads Markdown checklists with indented subtasks and skips other Markdown', () => {
+		const items = parseImport('# Trip\n- [ ] pack #travel\n  - [x] socks\n- [x] book hotel', 'UTC');
+		expect(items.map((item) => [item.content, item.completed, item.subtasks.map((subtask) => subtask.content)])).toEqual([
+			['pack', false, ['socks']],
+			['book hotel', true, []],
+		]);
+		expect(items[0].tags).toEqual(['travel']);
+	});
+
+	it('detects JSON', () => {
+		expect(parseImport('[{"content":"milk"}]').map((item) => item.content)).toEqual(['milk']);
+	});
+});
+
+describe('isImportUrl', () => {
+	it('accepts public http(s) URLs', () => {
+		expect(isImportUrl('https://example.com/todo.txt')).toBe(true);
+		expect(isImportUrl('http://93.184.216.34/list.md')).toBe(true);
+	});
+
+	it('rejects other schemes and local or private hosts', () => {
+		for (const url of [
+			'file:///etc/passwd', 'ftp://example.com/a', 'http://localhost/', 'http://router/', 'http://printer.local/',
+			'http://127.0.0.1/', 'http://2130706433/', 'http://10.0.0.1/', 'http://172.16.0.1/', 'http://192.168.1.1/',
+			'http://169.254.169.254/', 'http://[::1]/', 'http://[fd00::1]/', 'http://[::ffff:127.0.0.1]/',
+		]) {
+			expect(isImportUrl(url), url).toBe(false);
+		}
+	});
+});
+
+describe('importTodos', () => {
+	const pubkey = 'a'.repeat(64);
+	const item = (content: string, subtasks: string[] = []) => ({
+		content, completed: false, created_at: null, completed_at: null, due_at: null, priority: null, tags: [],
+		subtasks: subtasks.map((subtask) => item(subtask)),
+	});
+
+	async function rows(): Promise<[string, string | null][]> {
+		const { results } = await env.nostr_todo.prepare(
+			`SELECT t.content, p.content AS parent FROM todos t LEFT JOIN todos p ON p.id = t.parent_id
+			 WHERE t.pubkey = ? ORDER BY t.id`
+		).bind(pubkey).all();
+		return results.map((row: any) => [row.content, row.parent]);
+	}
+
+	it('skips existing todos and adds only their missing subtasks', async () => {
+		expect(await importTodos(env, pubkey, [item('trip', ['tickets'])], null)).toEqual({ imported: 2, skipped: 0 });
+		expect(await importTodos(env, pubkey, [item('trip', ['tickets', 'hotel']), item('tickets')], null)).toEqual({ imported: 2, skipped: 2 });
+		expect(await rows()).toEqual([['trip', null], ['tickets', 'trip'], ['hotel', 'trip'], ['tickets', null]]);
+	});
+
+	it('skips an item repeated within the import along with its subtasks', async () => {
+		expect(await importTodos(env, pubkey, [item('milk', ['oat']), item('milk', ['soy'])], null)).toEqual({ imported: 2, skipped: 2 });
+	});
+});
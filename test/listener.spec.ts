@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import { finalizeEvent, generateSecretKey, type Event, type Filter } from 'nostr-tools';
+import { RelayListener, type CursorStorage, type ListenerPool } from '../src/listener';
+
+// In-memory stand-in for relays: records subscriptions and published events
+class FakePool implements ListenerPool {
+	subscriptions: { requests: { url: string; filter: Filter }[]; params: any; closed: boolean }[] = [];
+	published: Event[] = [];
+
+	subscribeMap(requests: { url: string; filter: Filter }[], params: any) {
+		const subscription = { requests, params, closed: false };
+		this.subscriptions.push(subscription);
+		return {
+			close: () => {
+				subscription.closed = true;
+			},
+		};
+	}
+
+	publish(_relays: string[], event: Event) {
+		this.published.push(event);
+		return [Promise.resolve('ok')];
+	}
+
+	// The latest subscription, or the latest one to the given relay
+	latest(url?: string) {
+		return this.subscriptions.filter((subscription) => !url || subscription.requests[0].url === url).pop()!;
+	}
+
+	// Deliver an event on the latest subscription, as a relay would
+	deliver(event: Event, url?: string) {
+		this.latest(url).params.onevent(event);
+	}
+
+	// Signal the end of stored events on the latest subscription
+	eose(url?: string) {
+		this.latest(url).params.oneose();
+	}
+
+	// Drop the latest subscription, as relays do when the connection is lost
+	disconnect(url?: string) {
+		this.latest(url).params.onclose(['connection closed']);
+	}
+}
+
+class MemoryStorage implements CursorStorage {
+	values = new Map<string, unknown>();
+	async get<T>(key: string) {
+		return this.values.get(key) as T | undefined;
+	}
+	async put<T>(key: string, value: T) {
+		this.values.set(key, value);
+	}
+}
+
+const sk = generateSecretKey();
+const note = (content: string, created_at: number) => finalizeEvent({ kind: 1, created_at, tags: [], content }, sk);
+
+function setup(now: number, relays = ['wss://relay.example'], filters = (since: number): Filter[][] => [[{ kinds: [1], since }]]) {
+	const clock = { now };
+	const pool = new FakePool();
+	const storage = new MemoryStorage();
+	const handled: Event[] = [];
+	const listener = new RelayListener({
+		pool,
+		relays,
+		storage,
+		filters,
+		handle: async (event) => {
+			handled.push(event);
+			return note(`reply to ${event.content}`, event.created_at + 1);
+		},
+		now: () => clock.now,
+	});
+	return { pool, storage, handled, listener, clock };
+}
+
+describe('RelayListener', () => {
+	it('handles events and publishes replies', async () => {
+		const { pool, handled, listener } = setup(1000);
+		await listener.start();
+		pool.deliver(note('list', 990));
+		await listener.idle();
+
+		expect(handled.map((e) => e.content)).toEqual(['list']);
+		expect(pool.published.map((e) => e.content)).toEqual(['reply to list']);
+	});
+
+	it('ignores the same event delivered by several relays', async () => {
+		const { pool, handled, listener } = setup(1000);
+		await listener.start();
+		const event = note('add milk', 990);
+		pool.deliver(event);
+		pool.deliver(event);
+		await listener.idle();
+
+		expect(handled).toHaveLength(1);
+	});
+
+	it('resubscribes from the stored cursor after a disconnect', async () => {
+		const { pool, storage, listener, clock } = setup(1000);
+		await storage.put('since', 900);
+		await listener.start();
+		pool.eose();
+		await listener.idle();
+		expect(storage.values.get('since')).toBe(1000);
+		clock.now = 1010;
+		pool.deliver(note('list', 1005));
+		await listener.idle();
+		expect(storage.values.get('since')).toBe(1005);
+
+		pool.disconnect();
+		expect(listener.listening).toBe(false);
+		await listener.start();
+
+		expect(pool.subscriptions).toHaveLength(2);
+		expect(pool.subscriptions[1].requests[0].filter.since).toBe(1005 - 60);
+	});
+
+	it('resubscribes only to the relay that dropped its subscription', async () => {
+		const { pool, storage, listener, clock } = setup(1000, ['wss://a.example', 'wss://b.example']);
+		await storage.put('since', 900);
+		await listener.start();
+		pool.eose('wss://a.example');
+		pool.eose('wss://b.example');
+		await listener.idle();
+		expect(storage.values.get('since')).toBe(1000);
+
+		clock.now = 2000;
+		pool.disconnect('wss://b.example');
+		expect(listener.listening).toBe(true);
+		await listener.start();
+		expect(pool.subscriptions.map((subscription) => subscription.requests[0].url)).toEqual(['wss://a.example', 'wss://b.example', 'wss://b.example']);
+		expect(pool.latest().requests[0].filter.since).toBe(1000 - 60);
+
+		// The cursor waits for the resubscribed relay to finish its backfill
+		await listener.checkpoint();
+		expect(storage.values.get('since')).toBe(1000);
+		pool.eose('wss://b.example');
+		await listener.idle();
+		expect(storage.values.get('since')).toBe(2000);
+	});
+
+	it('keeps the other filter groups when a relay closes one', async () => {
+		const { pool, handled, listener } = setup(1000, ['wss://relay.example'], (since) => [[{ kinds: [1], '#p': ['bot'], since }], [{ kinds: [1], search: 'todo', since }]]);
+		await listener.start();
+		expect(pool.subscriptions.map((subscription) => subscription.requests.map((request) => request.filter))).toEqual([
+			[{ kinds: [1], '#p': ['bot'], since: 940 }],
+			[{ kinds: [1], search: 'todo', since: 940 }],
+		]);
+
+		pool.subscriptions[1].params.onclose(['unsupported: search']);
+		expect(listener.listening).toBe(true);
+		pool.subscriptions[0].params.onevent(note('list', 990));
+		await listener.idle();
+		expect(handled.map((e) => e.content)).toEqual(['list']);
+
+		await listener.start();
+		expect(pool.subscriptions).toHaveLength(3);
+		expect(pool.latest().requests[0].filter.search).toBe('todo');
+	});
+
+	it('backfills from the cursor kept in storage on a fresh start', async () => {
+		const { pool, storage, listener } = setup(100_000);
+		await storage.put('since', 90_000);
+		await listener.start();
+
+		expect(pool.subscriptions[0].requests[0].filter.since).toBe(90_000 - 60);
+	});
+
+	it('limits the backfill after a long downtime', async () => {
+		const { pool, storage, listener } = setup(1_000_000);
+		await storage.put('since', 1);
+		await listener.start();
+
+		expect(pool.subscriptions[0].requests[0].filter.since).toBe(1_000_000 - 24 * 60 * 60);
+	});
+
+	it('keeps the cursor during the backfill, which arrives newest first', async () => {
+		const { pool, storage, listener } = setup(5000);
+		await storage.put('since', 1000);
+		await listener.start();
+		pool.deliver(note('newer', 4000));
+		pool.deliver(note('older', 2000));
+		await listener.idle();
+		await listener.checkpoint();
+		expect(storage.values.get('since')).toBe(1000);
+
+		pool.eose();
+		await listener.idle();
+		expect(storage.values.get('since')).toBe(5000);
+	});
+
+	it('moves the cursor forward on checkpoint after EOSE', async () => {
+		const { pool, storage, listener, clock } = setup(5000);
+		await storage.put('since', 1000);
+		await listener.start();
+		pool.eose();
+		clock.now = 9000;
+		await listener.checkpoint();
+
+		expect(storage.values.get('since')).toBe(9000 - 60);
+	});
+});
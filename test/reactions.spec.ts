@@ -0,0 +1,36 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { bytesToHex } from '@noble/hashes/utils';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools';
+import { findTodoById, handleReaction, insertTodo } from '../src/index';
+
+const secret = generateSecretKey();
+const owner = getPublicKey(secret);
+
+async function mappedTodo(content: string) {
+	const todo = await insertTodo(env, owner, { content, due_at: null, priority: null, tags: [] }, null);
+	const reply = bytesToHex(generateSecretKey());
+	await env.nostr_todo.prepare('INSERT INTO reply_events (event_id, pubkey, todo_id, created_at) VALUES (?, ?, ?, 0)')
+		.bind(reply, owner, todo.id).run();
+	return { todo, reply };
+}
+
+function react(content: string, reply: string) {
+	return finalizeEvent({ kind: 7, created_at: Math.floor(Date.now() / 1000), tags: [['e', reply]], content }, secret);
+}
+
+describe('handleReaction', () => {
+	it('completes the todo of the reacted reply', async () => {
+		const { todo, reply } = await mappedTodo('milk');
+		expect((await handleReaction(react('✅', reply), env)).status).toBe(200);
+		expect((await findTodoById(env, todo.id)).completed).toBe(1);
+	});
+
+	it('ignores reactions named after Object.prototype members', async () => {
+		const { todo, reply } = await mappedTodo('eggs');
+		for (const content of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+			expect((await handleReaction(react(content, reply), env)).status).toBe(200);
+		}
+		expect(await findTodoById(env, todo.id)).toMatchObject({ completed: 0, deleted_at: null });
+	});
+});
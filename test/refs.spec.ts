@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { finalizeEvent, generateSecretKey, nip19 } from 'nostr-tools';
+import { getReferencedEvent, removeNostrRef } from '../src/index';
+
+const sk = generateSecretKey();
+const id = 'a'.repeat(64);
+const author = 'b'.repeat(64);
+const mention = (tags: string[][], content = 'todo') => finalizeEvent({ kind: 1, created_at: 1700000000, tags, content }, sk);
+
+describe('getReferencedEvent', () => {
+	it('takes a quote, the replied-to note or the last positional e tag', () => {
+		expect(getReferencedEvent(mention([['q', id]]))?.id).toBe(id);
+		expect(getReferencedEvent(mention([['e', 'c'.repeat(64), '', 'root'], ['e', id, 'wss://relay.example', 'reply', author]]))).toEqual({
+			id,
+			relays: ['wss://relay.example'],
+			pubkey: author,
+			content: null,
+		});
+		expect(getReferencedEvent(mention([['e', 'c'.repeat(64)], ['e', id]]))?.id).toBe(id);
+	});
+
+	it('ignores ids and pubkeys that are not hex', () => {
+		expect(getReferencedEvent(mention([['q', 'not-an-id']]))).toBeNull();
+		expect(getReferencedEvent(mention([['e', id.toUpperCase(), '', 'reply']]))).toBeNull();
+		expect(getReferencedEvent(mention([['e', id, '', 'reply', 'npub1xyz']]))?.pubkey).toBeNull();
+	});
+});
+
+describe('removeNostrRef', () => {
+	const note = nip19.noteEncode(id);
+
+	it('removes links to the referenced note only', () => {
+		const other = nip19.noteEncode('c'.repeat(64));
+		expect(removeNostrRef(`read this nostr:${note} later`, id)).toBe('read this later');
+		expect(removeNostrRef(`nostr:${other}`, id)).toBe(`nostr:${other}`);
+	});
+
+	it('keeps line breaks', () => {
+		expect(removeNostrRef(`groceries\n- [ ] milk\n- [ ] eggs\nnostr:${note}`, id)).toBe('groceries\n- [ ] milk\n- [ ] eggs');
+	});
+});
@@ -0,0 +1,65 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { finalizeEvent, generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import { handleRelayEvent, relayListenerFilters, RelayListenerObject } from '../src/index';
+
+const bot = getPublicKey(nip19.decode(env.TODO_NSEC).data as Uint8Array);
+const sk = generateSecretKey();
+const now = () => Math.floor(Date.now() / 1000);
+const note = (content: string, tags: string[][] = [], key = sk) => finalizeEvent({ kind: 1, created_at: now(), tags, content }, key);
+
+async function countTodos(): Promise<number> {
+	const row: any = await env.nostr_todo.prepare('SELECT COUNT(*) AS count FROM todos WHERE pubkey = ?').bind(getPublicKey(sk)).first();
+	return row.count;
+}
+
+describe('relayListenerFilters', () => {
+	it('subscribes to mentions of the bot and searches for calls instead of every note', () => {
+		const [mentions, calls] = relayListenerFilters(bot, 1000);
+		expect(mentions.every((filter) => filter['#p']?.includes(bot))).toBe(true);
+		expect(mentions.find((filter) => filter.kinds?.includes(1059))?.since).toBeLessThan(1000);
+		// The search goes in a REQ of its own, which relays without NIP-50 may refuse
+		expect(calls).toEqual([{ kinds: [1], search: 'todoさん', since: 1000 }]);
+	});
+});
+
+describe('handleRelayEvent', () => {
+	it('ignores the bot itself and notes that neither mention nor call it', async () => {
+		expect(await handleRelayEvent(note('add milk', [['p', bot]], nip19.decode(env.TODO_NSEC).data as Uint8Array), env, bot)).toBeNull();
+		expect(await handleRelayEvent(note('add milk'), env, bot)).toBeNull();
+		expect(await countTodos()).toBe(0);
+	});
+
+	it('replies to a mention once, however often relays deliver it', async () => {
+		const mention = note('add milk', [['p', bot]]);
+		const reply = await handleRelayEvent(mention, env, bot);
+		expect(reply?.pubkey).toBe(bot);
+		expect(reply?.tags).toContainEqual(['e', mention.id]);
+		expect(await handleRelayEvent(mention, env, bot)).toEqual(reply);
+		expect(await countTodos()).toBe(1);
+	});
+
+	it('runs a call found by its content', async () => {
+		const reply = await handleRelayEvent(note('todoさん add eggs'), env, bot);
+		expect(reply?.pubkey).toBe(bot);
+		expect(await countTodos()).toBe(1);
+	});
+
+	it('ignores stale events', async () => {
+		const old = finalizeEvent({ kind: 1, created_at: now() - 2 * 24 * 60 * 60, tags: [['p', bot]], content: 'add milk' }, sk);
+		expect(await handleRelayEvent(old, env, bot)).toBeNull();
+	});
+});
+
+describe('RelayListenerObject', () => {
+	it('starts listening on fetch and schedules its alarm', async () => {
+		// A relay that refuses connections, so that nothing leaves the test
+		await env.nostr_todo.prepare('INSERT INTO relays (url, position) VALUES (?, 0)').bind('ws://127.0.0.1:9').run();
+		const stub = env.RELAY_LISTENER.get(env.RELAY_LISTENER.idFromName('test'));
+		await runInDurableObject(stub, async (instance: RelayListenerObject, state) => {
+			const response = await instance.fetch(new Request('https://relay-listener/start'));
+			expect(response.ok).toBe(true);
+			expect(await state.storage.getAlarm()).not.toBeNull();
+		});
+	});
+});
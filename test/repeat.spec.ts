@@ -0,0 +1,70 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { findTodoById, insertTodo, parseRepeatRule, scheduleNextOccurrence } from '../src/index';
+
+describe('parseRepeatRule', () => {
+	it('parses Japanese phrases', () => {
+		expect(parseRepeatRule('毎日 ストレッチ')).toEqual({ rule: { unit: 'day', interval: 1 }, rest: 'ストレッチ' });
+		expect(parseRepeatRule('隔週金曜 ゴミ出し')?.rule).toEqual({ unit: 'week', interval: 2, weekday: 5 });
+		expect(parseRepeatRule('毎月25日 家賃')?.rule).toEqual({ unit: 'month', interval: 1, day: 25 });
+		expect(parseRepeatRule('3か月ごと 歯医者')?.rule).toEqual({ unit: 'month', interval: 3 });
+	});
+
+	it('parses English phrases', () => {
+		expect(parseRepeatRule('every other friday trash')).toEqual({ rule: { unit: 'week', interval: 2, weekday: 5 }, rest: 'trash' });
+		expect(parseRepeatRule('every 15th rent')?.rule).toEqual({ unit: 'month', interval: 1, day: 15 });
+		expect(parseRepeatRule('every 2 weeks review')?.rule).toEqual({ unit: 'week', interval: 2 });
+		expect(parseRepeatRule('yearly taxes')?.rule).toEqual({ unit: 'year', interval: 1 });
+	});
+
+	it('rejects intervals outside 1 to 365 and impossible days', () => {
+		expect(parseRepeatRule('every 0 days x')).toBeNull();
+		expect(parseRepeatRule('every 365 days x')?.rule.interval).toBe(365);
+		expect(parseRepeatRule('every 366 days x')).toBeNull();
+		expect(parseRepeatRule('every 99999 years x')).toBeNull();
+		expect(parseRepeatRule('毎月32日 x')).toBeNull();
+	});
+
+	it('returns null for text without a repeat phrase', () => {
+		expect(parseRepeatRule('everyday carry')).toBeNull();
+		expect(parseRepeatRule('buy milk')).toBeNull();
+	});
+});
+
+describe('scheduleNextOccurrence', () => {
+	const pubkey = 'a'.repeat(64);
+
+	it('creates the next occurrence with a fresh copy of the checklist', async () => {
+		const todo = await insertTodo(env, pubkey, {
+			content: 'weekly review', due_at: Math.floor(Date.now() / 1000) - 60, priority: null, tags: [],
+			repeat_rule: JSON.stringify({ unit: 'week', interval: 1 }),
+		}, null);
+		const done = await insertTodo(env, pubkey, { content: 'inbox zero', due_at: null, priority: null, tags: ['mail'], parent_id: todo.id }, null);
+		await insertTodo(env, pubkey, { content: 'plan week', due_at: null, priority: 1, tags: [], parent_id: todo.id }, null);
+		await env.nostr_todo.prepare('UPDATE todos SET completed = 1 WHERE id IN (?, ?)').bind(todo.id, done.id).run();
+
+		const next = await scheduleNextOccurrence(env, await findTodoById(env, todo.id), null);
+		expect(next.due_at).toBeGreaterThan(todo.due_at);
+		const { results } = await env.nostr_todo.prepare(
+			'SELECT content, completed, priority, position FROM todos WHERE parent_id = ? ORDER BY position'
+		).bind(next.id).all();
+		expect(results).toEqual([
+			{ content: 'inbox zero', completed: 0, priority: null, position: 1 },
+			{ content: 'plan week', completed: 0, priority: 1, position: 2 },
+		]);
+		expect(await scheduleNextOccurrence(env, await findTodoById(env, todo.id), null)).toBeNull();
+	});
+
+	it('does not go over the open todo limit of the list', async () => {
+		const owner = 'c'.repeat(64);
+		const todo = await insertTodo(env, owner, {
+			content: 'water plants', due_at: null, priority: null, tags: [], repeat_rule: JSON.stringify({ unit: 'day', interval: 1 }),
+		}, null);
+		await insertTodo(env, owner, { content: 'balcony', due_at: null, priority: null, tags: [], parent_id: todo.id }, null);
+		await env.nostr_todo.prepare('UPDATE todos SET completed = 1 WHERE id = ?').bind(todo.id).run();
+
+		const limited = { ...env, MAX_OPEN_TODOS: '2' };
+		expect(await scheduleNextOccurrence(limited, await findTodoById(env, todo.id), null)).toBeNull();
+		expect(await scheduleNextOccurrence({ ...env, MAX_OPEN_TODOS: '3' }, await findTodoById(env, todo.id), null)).not.toBeNull();
+	});
+});
@@ -0,0 +1,53 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { buildSearchSql, insertTodo, parseSearchQuery } from '../src/index';
+
+describe('parseSearchQuery', () => {
+	it('splits terms, quoted phrases and excluded terms', () => {
+		expect(parseSearchQuery('milk "olive oil" -bread')).toMatchObject({ terms: ['milk', 'olive oil'], excluded: ['bread'] });
+	});
+
+	it('takes tags and priority like add', () => {
+		expect(parseSearchQuery('#shopping !high milk')).toMatchObject({ tags: ['shopping'], priority: 1, terms: ['milk'] });
+	});
+
+	it('parses done, before and after filters', () => {
+		expect(parseSearchQuery('done:yes report')).toMatchObject({ done: true, terms: ['report'] });
+		expect(parseSearchQuery('done:all')).toMatchObject({ done: null });
+		expect(parseSearchQuery('after:2026-01-01 before:2026-02-01', 'Asia/Tokyo')).toMatchObject({
+			after: Date.UTC(2025, 11, 31, 15) / 1000,
+			before: Date.UTC(2026, 0, 31, 15) / 1000,
+		});
+	});
+
+	it('keeps quoted and negated filters as terms', () => {
+		expect(parseSearchQuery('"done:yes" -done:no')).toMatchObject({ terms: ['done:yes'], excluded: ['done:no'], done: null });
+	});
+
+	it('returns an error for invalid filter values', () => {
+		expect(parseSearchQuery('done:maybe')).toBe('done: must be yes, no or all');
+		expect(parseSearchQuery('before:yesterday')).toBe('before: must be a date like 2026-01-01');
+	});
+});
+
+describe('buildSearchSql', () => {
+	const pubkey = 'd'.repeat(64);
+
+	async function search(text: string): Promise<string[]> {
+		const query = parseSearchQuery(text);
+		if (typeof query === 'string') throw new Error(query);
+		const { sql, params } = buildSearchSql(pubkey, query);
+		const { results } = await env.nostr_todo.prepare(sql).bind(...params).all();
+		return results.map((row: any) => row.content).sort();
+	}
+
+	it('matches long terms through the index and short ones with LIKE', async () => {
+		for (const content of ['buy milk', 'buy oat milk', '牛乳を買う', 'call 100% of the team']) {
+			await insertTodo(env, pubkey, { content, due_at: null, priority: null, tags: [] }, null);
+		}
+		expect(await search('milk')).toEqual(['buy milk', 'buy oat milk']);
+		expect(await search('milk -oat')).toEqual(['buy milk']);
+		expect(await search('牛乳')).toEqual(['牛乳を買う']);
+		expect(await search('0%')).toEqual(['call 100% of the team']);
+	});
+});
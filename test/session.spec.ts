@@ -0,0 +1,52 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { finalizeEvent, generateSecretKey } from 'nostr-tools';
+import { handleApi } from '../src/index';
+
+const origin = 'https://example.com';
+
+async function challenge(): Promise<string> {
+	const response = await handleApi(new Request(`${origin}/api/session/challenge`), env, ['', 'api', 'session', 'challenge']);
+	return ((await response.json()) as any).challenge;
+}
+
+function login(tags: string[][], sk = generateSecretKey()): Promise<Response> {
+	const event = finalizeEvent({ kind: 22242, created_at: Math.floor(Date.now() / 1000), tags, content: '' }, sk);
+	return handleApi(new Request(`${origin}/api/session`, { method: 'POST', body: JSON.stringify(event) }), env, ['', 'api', 'session']);
+}
+
+describe('login challenge', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('signs in with a fresh challenge and sets the session cookie', async () => {
+		const response = await login([['challenge', await challenge()], ['u', origin]]);
+		expect(response.status).toBe(201);
+		expect(response.headers.get('set-cookie')).toMatch(/^nostr_todo_session=[0-9a-f]{64};/);
+	});
+
+	it('accepts each challenge once', async () => {
+		const value = await challenge();
+		expect((await login([['challenge', value], ['u', origin]])).status).toBe(201);
+		const again = await login([['challenge', value], ['u', origin]]);
+		expect(again.status).toBe(401);
+		expect(await again.json()).toEqual({ error: 'Challenge already used' });
+	});
+
+	it('rejects tampered and expired challenges', async () => {
+		const [time, nonce, mac] = (await challenge()).split('.');
+		expect((await login([['challenge', `${time}.${nonce.replace(/^./, (c) => (c === '0' ? '1' : '0'))}.${mac}`], ['u', origin]])).status).toBe(401);
+
+		const value = await challenge();
+		const now = Date.now();
+		vi.spyOn(Date, 'now').mockReturnValue(now + 6 * 60 * 1000);
+		const expired = await login([['challenge', value], ['u', origin]]);
+		expect(await expired.json()).toEqual({ error: 'Invalid challenge' });
+	});
+
+	it('rejects a login for another origin', async () => {
+		const response = await login([['challenge', await challenge()], ['u', 'https://evil.example']]);
+		expect(await response.json()).toEqual({ error: 'Origin does not match' });
+	});
+});
@@ -0,0 +1,31 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { finalizeEvent, generateSecretKey } from 'nostr-tools';
+import { handleCommand, insertTodo } from '../src/index';
+
+const secret = generateSecretKey();
+
+function command(content: string) {
+	return finalizeEvent({ kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [], content }, secret);
+}
+
+describe('add <id> / <content>', () => {
+	it('adds a subtask to a todo', async () => {
+		const parent = await insertTodo(env, command('').pubkey, { content: 'trip', due_at: null, priority: null, tags: [] }, null);
+		await handleCommand(command(`add ${parent.user_id} / packing`), env);
+		const child: any = await env.nostr_todo.prepare('SELECT content, position FROM todos WHERE parent_id = ?').bind(parent.id).first();
+		expect(child).toEqual({ content: 'packing', position: 1 });
+	});
+
+	it('does not nest subtasks under a subtask', async () => {
+		const pubkey = command('').pubkey;
+		const parent = await insertTodo(env, pubkey, { content: 'move', due_at: null, priority: null, tags: [] }, null);
+		const child = await insertTodo(env, pubkey, { content: 'boxes', due_at: null, priority: null, tags: [], parent_id: parent.id }, null);
+		// A subtask that still has a number of its own
+		await env.nostr_todo.prepare('UPDATE todos SET user_id = 99 WHERE id = ?').bind(child.id).run();
+
+		await handleCommand(command('add 99 / tape'), env);
+		const { results } = await env.nostr_todo.prepare('SELECT id FROM todos WHERE parent_id = ?').bind(child.id).all();
+		expect(results).toEqual([]);
+	});
+});
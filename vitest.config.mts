@@ -1,11 +1,38 @@
-import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { defineWorkersConfig, readD1Migrations } from '@cloudflare/vitest-pool-workers/config';
 
-export default defineWorkersConfig({
-	test: {
-		poolOptions: {
-			workers: {
-				wrangler: { configPath: './wrangler.jsonc' },
+export default defineWorkersConfig(async () => {
+	// The todos table and migrate.sql predate migrations/, so they run first as one more migration.
+	// Wrangler splits it into statements the way it does for migrations, keeping trigger bodies whole.
+	const { unstable_splitSqlQuery } = await import('wrangler');
+	const baseline = await fs.readFile(path.join(__dirname, 'migrate.sql'), 'utf8');
+	const migrations = [
+		{
+			name: '0000_baseline.sql',
+			queries: [
+				'CREATE TABLE todos (id INTEGER PRIMARY KEY AUTOINCREMENT, pubkey TEXT NOT NULL, content TEXT NOT NULL, completed INTEGER NOT NULL DEFAULT 0, created_at INTEGER NOT NULL)',
+				...unstable_splitSqlQuery(baseline),
+			],
+		},
+		...(await readD1Migrations(path.join(__dirname, 'migrations'))),
+	];
+
+	return {
+		test: {
+			setupFiles: ['./test/apply-migrations.ts'],
+			poolOptions: {
+				workers: {
+					// Files running side by side in one runtime lose the connection to their isolated storage
+					// on a busy machine, and one at a time is faster anyway
+					singleWorker: true,
+					wrangler: { configPath: './wrangler.jsonc' },
+					miniflare: {
+						// A key for the bot that is only used in tests
+						bindings: { TEST_MIGRATIONS: migrations, TODO_NSEC: 'nsec15ljxdwhqcwzrsgmll8yqs0v69xm40tkvlfrzsrnkm27ywrly4j9qruky9u' },
+					},
+				},
 			},
 		},
-	},
+	};
 });